@@ -6,21 +6,17 @@ export class CCTStrip extends HomebridgeMagichomeDynamicPlatformAccessory {
   async updateDeviceState(_timeout = 200) {
 
     //**** local variables ****\\
-    const CCT = this.lightState.CCT;
+    const whites = this.cctToWhiteTemperature(); //calculate the white colors as a function of color temperature. See "cctToWhiteTemperature()"
+    const brightness = this.lightState.brightness;
     
-    //we default the mask to turn on color. Other values can still be set, they just wont turn on
-    
-    //sanitize our color/white values with Math.round and clamp between 0 and 255, not sure if either is needed
+    //sanitize our white values with Math.round and clamp between 0 and 127
     //next determine brightness by dividing by 100 and multiplying it back in as brightness (0-100)
-    //const ww = Math.round(((clamp(whites.warmWhite, 0, 127) / 100) * brightness));
-    //const cw = Math.round(((clamp(whites.coldWhite, 0, 127) / 100) * brightness));
-    
+    const ww = Math.round(((clamp(whites.warmWhite, 0, 127) / 100) * brightness));
+    const cw = Math.round(((clamp(whites.coldWhite, 0, 127) / 100) * brightness));
     
-    //await this.send([0x31, 0x00, 0x00, 0x00, ww, cw, 0xFF, 0x0F], true, _timeout); //9th byte checksum calculated later in send()
-   // await this.send([0x35, 0xb1, ww, cw, 0x00, 0x00, 0x00, 0x03], true, _timeout); //9th byte checksum calculated later in send()
-
+    return this.send([0x31, 0x00, 0x00, 0x00, ww, cw, 0xFF, 0x0F], true, _timeout); //9th byte checksum calculated later in send()
     
-  }//setColor
+  }//updateDeviceState
 
 
   async updateHomekitState() {
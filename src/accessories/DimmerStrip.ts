@@ -17,15 +17,15 @@ export class DimmerStrip extends HomebridgeMagichomeDynamicPlatformAccessory {
 
   }
     
-  async setColor() {
+  async updateDeviceState() {
 
     //**** local variables ****\\
     const brightness = Math.round((2.5 * this.lightState.brightness));
 
-    await this.send([0x31, brightness, 0x00, 0x00, 0x03, 0x01, 0x0F]); //8th byte checksum calculated later in send()
+    return this.send([0x31, brightness, 0x00, 0x00, 0x03, 0x01, 0x0F]); //8th byte checksum calculated later in send()
 
     
-  }//setColor
+  }//updateDeviceState
     
     
 }
\ No newline at end of file
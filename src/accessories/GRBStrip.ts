@@ -2,7 +2,6 @@ import { clamp, convertHSLtoRGB } from '../magichome-interface/utils';
 import { HomebridgeMagichomeDynamicPlatformAccessory } from '../platformAccessory';
 
 export class GRBStrip extends HomebridgeMagichomeDynamicPlatformAccessory {
-  public eightByteProtocol = 2;
   async updateDeviceState() {
 
     //**** local variables ****\\
@@ -23,14 +22,7 @@ export class GRBStrip extends HomebridgeMagichomeDynamicPlatformAccessory {
     const b = Math.round(((clamp(blue, 0, 255) / 100) * brightness));
   
    
-    if(this.eightByteProtocol == 0){
-      await this.send([0x31, r, g, b, 0x00, mask, 0x0F]); //8th byte checksum calculated later in send()
-    } else if(this.eightByteProtocol == 1){
-      await this.send([0x31, r, g, b, 0x00, 0x00, mask, 0x0F]);
-    } else if (this.eightByteProtocol == 2){
-      this.eightByteProtocol = (await this.send([0x31, r, g, b, 0x00, 0x00, mask, 0x0F])) == undefined ? 0 : 1;
-      await this.send([0x31, r, g, b, 0x00, mask, 0x0F]); //8th byte checksum calculated later in send()
-    }
+    return this.sendColor({ red: r, green: g, blue: b, warmWhite: 0, coldWhite: 0, mask });
 
     
   }//setColor
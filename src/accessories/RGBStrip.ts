@@ -2,7 +2,6 @@ import { clamp, convertHSLtoRGB } from '../magichome-interface/utils';
 import { HomebridgeMagichomeDynamicPlatformAccessory } from '../platformAccessory';
 
 export class RGBStrip extends HomebridgeMagichomeDynamicPlatformAccessory {
-  public eightByteProtocol = 2;
   async updateDeviceState() {
 
     //**** local variables ****\\
@@ -22,13 +21,6 @@ export class RGBStrip extends HomebridgeMagichomeDynamicPlatformAccessory {
     const g = Math.round(((clamp(green, 0, 255) / 100) * brightness));
     const b = Math.round(((clamp(blue, 0, 255) / 100) * brightness));
 
-    if(this.eightByteProtocol == 0){
-      await this.send([0x31, r, g, b, 0x00, mask, 0x0F]); //8th byte checksum calculated later in send()
-    } else if(this.eightByteProtocol == 1){
-      await this.send([0x31, r, g, b, 0x00, 0x00, mask, 0x0F]);
-    } else if (this.eightByteProtocol == 2){
-      this.eightByteProtocol = (await this.send([0x31, r, g, b, 0x00, 0x00, mask, 0x0F])) == undefined ? 0 : 1;
-      await this.send([0x31, r, g, b, 0x00, mask, 0x0F]); //8th byte checksum calculated later in send()
-    }
+    return this.sendColor({ red: r, green: g, blue: b, warmWhite: 0, coldWhite: 0, mask });
   }//setColor  
 }
\ No newline at end of file
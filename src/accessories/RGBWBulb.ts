@@ -2,7 +2,6 @@ import { clamp, convertHSLtoRGB } from '../magichome-interface/utils';
 import { HomebridgeMagichomeDynamicPlatformAccessory } from '../platformAccessory';
 
 export class RGBWBulb extends HomebridgeMagichomeDynamicPlatformAccessory {
-  public eightByteProtocol = 2;
   async updateDeviceState() {
 
     //**** local variables ****\\
@@ -41,14 +40,7 @@ export class RGBWBulb extends HomebridgeMagichomeDynamicPlatformAccessory {
 
     } 
    
-    if(this.eightByteProtocol == 0){
-      await this.send([0x31, r, g, b, ww, mask, 0x0F]); //8th byte checksum calculated later in send()
-    } else if(this.eightByteProtocol == 1){
-      await this.send([0x31, r, g, b, ww, 0x00, mask, 0x0F]);
-    } else if (this.eightByteProtocol == 2){
-      this.eightByteProtocol = (await this.send([0x31, r, g, b, ww, 0x00, mask, 0x0F])) == undefined ? 0 : 1;
-      await this.send([0x31, r, g, b, ww, mask, 0x0F]); //8th byte checksum calculated later in send()
-    }
+    return this.sendColor({ red: r, green: g, blue: b, warmWhite: ww, coldWhite: 0, mask });
 
   }
   
@@ -56,7 +48,7 @@ export class RGBWBulb extends HomebridgeMagichomeDynamicPlatformAccessory {
     this.service.updateCharacteristic(this.platform.Characteristic.On, this.lightState.isOn);
     this.service.updateCharacteristic(this.platform.Characteristic.Hue, this.lightState.HSL.hue);
     this.service.updateCharacteristic(this.platform.Characteristic.Saturation, this.lightState.HSL.saturation);
-    if(this.lightState.HSL.luminance > 0 && this.lightState.isOn){
+    if(!this.isWhiteMode() && this.lightState.isOn){
       this.service.updateCharacteristic(this.platform.Characteristic.Brightness, this.lightState.HSL.luminance * 2);
     } else if (this.lightState.isOn){
       this.service.updateCharacteristic(this.platform.Characteristic.Brightness,clamp((this.lightState.whiteValues.warmWhite/2.55), 0, 100));
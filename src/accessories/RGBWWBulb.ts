@@ -58,7 +58,7 @@ export class RGBWWBulb extends HomebridgeMagichomeDynamicPlatformAccessory {
       //this.platform.log.debug('Setting colors without white: r:%o g:%o b:%o', r, g, b);
 
     }
-    await this.send([0x31, r, g, b, ww, cw, mask, 0x0F], true, _timeout); //9th byte checksum calculated later in send()
+    return this.sendColor({ red: r, green: g, blue: b, warmWhite: ww, coldWhite: cw, mask }, _timeout);
 
     
   }//setColor
@@ -68,7 +68,7 @@ export class RGBWWBulb extends HomebridgeMagichomeDynamicPlatformAccessory {
     this.service.updateCharacteristic(this.platform.Characteristic.On, this.lightState.isOn);
     this.service.updateCharacteristic(this.platform.Characteristic.Hue, this.lightState.HSL.hue);
     this.service.updateCharacteristic(this.platform.Characteristic.Saturation,  this.lightState.HSL.saturation);
-    if(this.lightState.HSL.luminance > 0 && this.lightState.isOn){
+    if(!this.isWhiteMode() && this.lightState.isOn){
       this.service.updateCharacteristic(this.platform.Characteristic.Brightness, this.lightState.HSL.luminance * 2);
     } else if (this.lightState.isOn){
       this.service.updateCharacteristic(this.platform.Characteristic.Brightness,clamp(((this.lightState.whiteValues.coldWhite/2.55) + (this.lightState.whiteValues.warmWhite/2.55)), 0, 100));
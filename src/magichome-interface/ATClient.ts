@@ -0,0 +1,179 @@
+import dgram from 'dgram';
+import { Logs } from '../logs';
+import { BROADCAST_MAGIC_STRING, BROADCAST_PORT } from './Discover';
+import { IDeviceDiscoveredProps, IWifiDiagnostics } from './types';
+
+const COMMAND_MODE = '+ok';
+const COMMAND_QUIT = 'AT+Q';
+
+/**
+ * Module replies look like "+ok=value\r\n\r\n", "+ok" for commands without a value, or "+ERR=code".
+ * Returns the value, an empty string for a bare "+ok" and null for errors.
+ */
+export function parseReply(reply: string): string | null {
+  const trimmed = reply.trim();
+  if (!trimmed.startsWith('+ok')) {
+    return null;
+  }
+  return trimmed.startsWith('+ok=') ? trimmed.slice(4).trim() : '';
+}
+
+/**
+ * AT+WSLK answers "SSID(AA:BB:CC:DD:EE:FF)" with the access point's BSSID, or "Disconnected" / "RF Off".
+ */
+export function parseLink(link: string | null): string | null {
+  const match = /^(.*)\(([0-9A-Fa-f:]{17})\)$/.exec(link ?? '');
+  return match ? match[1] : null;
+}
+
+/**
+ * AT+WSLQ answers "Normal, 72%" (or "Weak, 15%"), "Disconnected" when not connected.
+ */
+export function parseSignalQuality(quality: string | null): number | null {
+  const match = /(\d+)%/.exec(quality ?? '');
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ ** @ATClient
+ * the HF-LPB100 Wi-Fi module of a controller accepts AT commands on the discovery port once the discovery
+ * handshake is followed by "+ok". One client is one command session with one device, on its own ephemeral
+ * socket so the replies can't mix with the shared discovery socket or other sessions.
+ */
+export class ATClient {
+  private socket: dgram.Socket = null;
+  private replies: string[] = [];
+  private waiting: ((reply: string | null) => void) | null = null;
+
+  constructor(
+    private readonly logs: Logs,
+    public readonly ipAddress: string,
+    private readonly timeout = 1000,
+  ) {}
+
+  /**
+   ** @getDiagnostics
+   * module firmware, connected SSID, signal quality and MAC address, or null when the module doesn't answer
+   * values the module doesn't support are null
+   */
+  async getDiagnostics(): Promise<IWifiDiagnostics | null> {
+    try {
+      if (!await this.start()) {
+        return null;
+      }
+      const moduleFirmware = await this.command('AT+LVER');
+      const ssid = parseLink(await this.command('AT+WSLK'));
+      const signalQuality = parseSignalQuality(await this.command('AT+WSLQ'));
+      const macAddress = await this.command('AT+WSMAC');
+      this.quit();
+      return { moduleFirmware, ssid, signalQuality, macAddress };
+    } catch (error) {
+      this.logs.debug('Unable to read Wi-Fi diagnostics of %o: %o', this.ipAddress, error.message);
+      return null;
+    } finally {
+      this.close();
+    }
+  }
+
+  /**
+   * Opens the socket and enters command mode. Returns the device's discovery reply,
+   * or null when the module doesn't answer the handshake.
+   */
+  async start(): Promise<IDeviceDiscoveredProps | null> {
+    await this.open();
+    this.send(BROADCAST_MAGIC_STRING);
+    const reply = await this.nextReply();
+    const parts = reply?.split(',') ?? [];
+    if (parts.length !== 3) {
+      return null;
+    }
+    this.send(COMMAND_MODE);
+    const [ipAddress, uniqueId, modelNumber] = parts;
+    return { ipAddress, uniqueId, modelNumber };
+  }
+
+  /**
+   * Sends a command like "AT+WSLQ" and returns the value of its reply, null on "+ERR" or no reply.
+   */
+  async command(command: string): Promise<string | null> {
+    // a reply arriving after its command timed out must not be taken for the answer to this one
+    this.replies = [];
+    this.send(command + '\r');
+    const reply = await this.nextReply();
+    if (reply === null) {
+      this.logs.debug('%o did not answer %o', this.ipAddress, command);
+      return null;
+    }
+    return parseReply(reply);
+  }
+
+  /**
+   * Leaves command mode. The module doesn't answer AT+Q.
+   */
+  quit() {
+    this.send(COMMAND_QUIT + '\r');
+  }
+
+  close() {
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+    this.replies = [];
+    this.resolveWaiting(null);
+  }
+
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket('udp4');
+
+      socket.once('error', (err) => {
+        socket.close();
+        reject(err);
+      });
+
+      socket.on('message', (msg, rinfo) => {
+        if (rinfo.address !== this.ipAddress) {
+          return;
+        }
+        if (this.waiting) {
+          this.resolveWaiting(msg.toString());
+        } else {
+          this.replies.push(msg.toString());
+        }
+      });
+
+      socket.bind(0, () => {
+        socket.removeAllListeners('error');
+        socket.on('error', () => this.close());
+        this.socket = socket;
+        resolve();
+      });
+    });
+  }
+
+  private send(message: string) {
+    this.socket?.send(message, BROADCAST_PORT, this.ipAddress);
+  }
+
+  private nextReply(): Promise<string | null> {
+    if (this.replies.length > 0) {
+      return Promise.resolve(this.replies.shift());
+    }
+    return new Promise((resolve) => {
+      const replyTimeout = setTimeout(() => this.resolveWaiting(null), this.timeout);
+      this.waiting = (reply) => {
+        clearTimeout(replyTimeout);
+        resolve(reply);
+      };
+    });
+  }
+
+  private resolveWaiting(reply: string | null) {
+    const waiting = this.waiting;
+    this.waiting = null;
+    if (waiting) {
+      waiting(reply);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { checksum } from './utils';
+
+export const COMMAND_QUERY_CLOCK = Uint8Array.from([0x11, 0x1a, 0x1b, 0x0f]);
+const COMMAND_SET_CLOCK = 0x10;
+
+/*
+ * Layout of the 12 byte 0x11 clock response
+ *
+ *  0: header (0xF0)     6: hour
+ *  1: 0x11              7: minute
+ *  2: 0x14              8: second
+ *  3: year - 2000       9: weekday (1 monday - 7 sunday)
+ *  4: month             10: unused
+ *  5: day               11: checksum
+ */
+export const CLOCK_RESPONSE_HEADER = [0xf0, 0x11];
+export const CLOCK_RESPONSE_LENGTH = 12;
+
+export function isValidClockResponse(data: Buffer): boolean {
+  if (data == null || data.length < CLOCK_RESPONSE_LENGTH
+    || data.readUInt8(0) !== CLOCK_RESPONSE_HEADER[0] || data.readUInt8(1) !== CLOCK_RESPONSE_HEADER[1]) {
+    return false;
+  }
+  return checksum(data.subarray(0, CLOCK_RESPONSE_LENGTH - 1)) === data.readUInt8(CLOCK_RESPONSE_LENGTH - 1);
+}
+
+/**
+ ** @decodeClock
+ * the controller keeps local time without a timezone, so it is read back as host local time
+ */
+export function decodeClock(data: Buffer): Date | null {
+  if (!isValidClockResponse(data)) {
+    return null;
+  }
+  return new Date(
+    data.readUInt8(3) + 2000,
+    data.readUInt8(4) - 1,
+    data.readUInt8(5),
+    data.readUInt8(6),
+    data.readUInt8(7),
+    data.readUInt8(8),
+  );
+}
+
+/**
+ ** @buildSetClockCommand
+ * 0x10, 0x14, year - 2000, month, day, hour, minute, second, weekday, 0x00, 0x0F
+ */
+export function buildSetClockCommand(date: Date): number[] {
+  const weekday = date.getDay() === 0 ? 7 : date.getDay();
+  return [
+    COMMAND_SET_CLOCK,
+    0x14,
+    date.getFullYear() - 2000,
+    date.getMonth() + 1,
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    weekday,
+    0x00,
+    0x0f,
+  ];
+}
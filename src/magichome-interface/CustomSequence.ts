@@ -0,0 +1,46 @@
+import { clamp, speedToDelay } from './utils';
+import { ICustomSequence, TransitionTypes } from './types';
+
+const COMMAND_CUSTOM_SEQUENCE = 0x51;
+export const MAX_CUSTOM_SEQUENCE_STEPS = 16;
+
+const transitionBytes = {
+  [TransitionTypes.gradual]: 0x3A,
+  [TransitionTypes.jump]: 0x3B,
+  [TransitionTypes.strobe]: 0x3C,
+};
+
+// the controller always expects 16 steps, unused ones are filled with this placeholder which it skips
+const UNUSED_STEP = [0x01, 0x02, 0x03, 0x00];
+
+export function isValidCustomSequence(sequence: ICustomSequence): boolean {
+  const { name, steps, transition } = sequence || {} as ICustomSequence;
+  return typeof name === 'string' && name.length > 0
+    && Array.isArray(steps) && steps.length > 0 && steps.length <= MAX_CUSTOM_SEQUENCE_STEPS
+    && transitionBytes[transition] !== undefined;
+}
+
+/**
+ ** @buildCustomSequenceCommand
+ * 0x51, 16 steps of [red, green, blue, 0x00], delay, transition, 0xFF, 0x0F
+ */
+export function buildCustomSequenceCommand(sequence: ICustomSequence): number[] {
+  const command = [COMMAND_CUSTOM_SEQUENCE];
+
+  for (let i = 0; i < MAX_CUSTOM_SEQUENCE_STEPS; i++) {
+    const step = sequence.steps[i];
+    if (step) {
+      command.push(
+        Math.round(clamp(step.red, 0, 255)),
+        Math.round(clamp(step.green, 0, 255)),
+        Math.round(clamp(step.blue, 0, 255)),
+        0x00,
+      );
+    } else {
+      command.push(...UNUSED_STEP);
+    }
+  }
+
+  command.push(speedToDelay(sequence.speed ?? 50), transitionBytes[sequence.transition], 0xFF, 0x0F);
+  return command;
+}
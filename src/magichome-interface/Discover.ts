@@ -1,73 +1,254 @@
 import dgram from 'dgram';
+import { promises as dns } from 'dns';
+import { EventEmitter } from 'events';
 import { Network } from './Network';
+import { sleep } from './utils';
 
 import { Logs } from '../logs';
 import type { PlatformConfig } from 'homebridge';
 import { IDeviceDiscoveredProps } from '../magichome-interface/types';
 
-const BROADCAST_PORT = 48899;
-const BROADCAST_MAGIC_STRING = 'HF-A11ASSISTHREAD';
+export const BROADCAST_PORT = 48899;
+export const BROADCAST_MAGIC_STRING = 'HF-A11ASSISTHREAD';
 
-export class Discover {
+// one discovery service for the whole platform, see getDiscover()
+let discover: Discover = null;
+
+/**
+ * Returns the shared discovery service, creating it on first use.
+ * Scans, static device queries and periodic rediscovery all go through its single socket.
+ */
+export function getDiscover(logs: Logs, config: PlatformConfig): Discover {
+  if (!discover) {
+    discover = new Discover(logs, config);
+  }
+  return discover;
+}
+
+/**
+ * Closes the discovery socket, used when homebridge shuts down.
+ */
+export function closeDiscover() {
+  if (discover) {
+    discover.close();
+    discover.removeAllListeners();
+    discover = null;
+  }
+}
+
+/**
+ * Emits 'device' with the IDeviceDiscoveredProps of every discovery reply, whether it answers a scan or a queryHost().
+ * The socket is bound once and kept open, so overlapping scans share it instead of opening their own.
+ */
+export class Discover extends EventEmitter {
   public count = 1;
-  constructor(  
+  private socket: dgram.Socket = null;
+  private opening: Promise<dgram.Socket> = null;
+  private activeScan: Promise<IDeviceDiscoveredProps[]> = null;
+
+  constructor(
     public readonly logs: Logs,
     private readonly config: PlatformConfig,
-  ){}
+  ){
+    super();
+  }
+
+  /**
+   ** @scan
+   * broadcasts to every selected interface and configured broadcast address, collecting replies until the timeout
+   * a scan requested while another one is running gets the results of the running one
+   */
+  scan(timeout = 500): Promise<IDeviceDiscoveredProps[]> {
+    if (this.activeScan) {
+      this.logs.debug('A discovery scan is already running, waiting for its results.');
+      return this.activeScan;
+    }
+    this.activeScan = this.runScan(timeout).finally(() => {
+      this.activeScan = null;
+    });
+    return this.activeScan;
+  }
+
+  private async runScan(timeout: number): Promise<IDeviceDiscoveredProps[]> {
+    const socket = await this.open();
+    const { includeInterfaces, excludeInterfaces, broadcastAddresses } = this.config.discovery ?? {};
+    const userInterfaces = Network.interfaces(includeInterfaces ?? [], excludeInterfaces ?? []);
+    const clients: IDeviceDiscoveredProps[] = [];
+    // devices found per scanned interface or configured broadcast address, logged when the scan ends
+    const devicesPerTarget: Map<string, number> = new Map();
+
+    const onDevice = (device: IDeviceDiscoveredProps) => {
+      const { ipAddress, uniqueId, modelNumber } = device;
+
+      if (clients.findIndex((item) => item.uniqueId === uniqueId) === -1) {
+        clients.push(device);
+        const target = userInterfaces.find(userInterface => Network.contains(userInterface.cidr, ipAddress))?.name ?? 'other networks';
+        devicesPerTarget.set(target, (devicesPerTarget.get(target) ?? 0) + 1);
+        this.logs.debug('\n%o - Discovered device...\nUniqueId: %o \nIpAddress %o \nModel: %o\n.', this.count++, uniqueId, ipAddress,modelNumber);
+      } else {
+        this.logs.debug('\n%o - A device has been discovered that already exists. Likely due to a "fun" network layout...\nUniqueId: %o \nIpAddress %o \nModel: %o\n already exists.', this.count++, uniqueId, ipAddress,modelNumber);
+      }
+    };
+    this.on('device', onDevice);
+
+    const addressAlreadyScanned: string[] = [];
+    for (const userInterface of userInterfaces){
+      devicesPerTarget.set(userInterface.name, devicesPerTarget.get(userInterface.name) ?? 0);
+      if( addressAlreadyScanned.includes(userInterface.broadcast)){
+        this.logs.debug('Skipping redundant scan of broadcast-address %o for Magichome devices.', userInterface.broadcast);
+        continue;
+      }
+      addressAlreadyScanned.push(userInterface.broadcast);
+      this.logs.debug('Scanning broadcast-address: %o (%o, %o) for Magichome devices...', userInterface.broadcast, userInterface.name, userInterface.cidr);
+      socket.send(BROADCAST_MAGIC_STRING, BROADCAST_PORT, userInterface.broadcast);
+    }
+    for (const broadcastAddress of broadcastAddresses ?? []) {
+      if( addressAlreadyScanned.includes(broadcastAddress)){
+        continue;
+      }
+      addressAlreadyScanned.push(broadcastAddress);
+      this.logs.debug('Scanning configured broadcast-address: %o for Magichome devices...', broadcastAddress);
+      socket.send(BROADCAST_MAGIC_STRING, BROADCAST_PORT, broadcastAddress);
+    }
+    if (addressAlreadyScanned.length === 0) {
+      this.logs.warn('No network interface left to scan for Magichome devices, check the discovery interface settings.');
+    }
+
+    await sleep(timeout);
+    this.removeListener('device', onDevice);
+    for (const [target, count] of devicesPerTarget) {
+      this.logs.debug('Discovery on %o returned %o device(s).', target, count);
+    }
+    return clients;
+  }
+
+  /**
+   ** @findDevice
+   * broadcast scan for one device by its unique id (the MAC address), resolves as soon as it answers
+   * resolves null when it doesn't answer before the scan ends
+   */
+  findDevice(uniqueId: string, timeout = 2000): Promise<IDeviceDiscoveredProps | null> {
+    return new Promise((resolve) => {
+      const finish = (device: IDeviceDiscoveredProps | null) => {
+        this.removeListener('device', onDevice);
+        resolve(device);
+      };
+      const onDevice = (device: IDeviceDiscoveredProps) => {
+        if (device.uniqueId === uniqueId) {
+          finish(device);
+        }
+      };
+
+      this.on('device', onDevice);
+      this.scan(timeout).then(() => finish(null), () => finish(null));
+    });
+  }
+
+  /**
+   ** @queryHost
+   * unicast discovery of a single device by IP or hostname, for devices broadcasts don't reach (routed subnets, VLANs)
+   * resolves null when the device doesn't answer or the hostname can't be resolved
+   */
+  async queryHost(host: string, timeout = 2000): Promise<IDeviceDiscoveredProps | null> {
+    let socket: dgram.Socket, address: string;
+    try {
+      socket = await this.open();
+      ({ address } = await dns.lookup(host, { family: 4 }));
+    } catch (error) {
+      this.logs.debug('Unicast discovery of %o failed: %o', host, error.message);
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      let finished = false;
 
+      const finish = (device: IDeviceDiscoveredProps | null) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        clearTimeout(queryTimeout);
+        this.removeListener('device', onDevice);
+        resolve(device);
+      };
+
+      // replies to scans running at the same time arrive here too, only take the one from the queried host
+      const onDevice = (device: IDeviceDiscoveredProps, sender: string) => {
+        if (sender === address || device.ipAddress === address) {
+          this.logs.debug('Discovered device %o at %o by unicast to %o', device.uniqueId, device.ipAddress, host);
+          finish(device);
+        }
+      };
+
+      const queryTimeout = setTimeout(() => finish(null), timeout);
+      this.on('device', onDevice);
 
-  async scan(timeout = 500): Promise<IDeviceDiscoveredProps[]> {
+      socket.send(BROADCAST_MAGIC_STRING, BROADCAST_PORT, address, (err) => {
+        if (err) {
+          this.logs.debug('Unable to send unicast discovery to %o: %o', host, err.message);
+          finish(null);
+        }
+      });
+    });
+  }
 
+  close() {
+    if (this.socket) {
+      this.socket.close();
+    }
+    this.socket = null;
+    this.opening = null;
+  }
+
+  /**
+   * Binds the discovery socket on first use. Devices answer the port they were asked from, so an ephemeral
+   * port is used rather than 48899, which no other instance or tool on this host can then take replies from.
+   */
+  private open(): Promise<dgram.Socket> {
+    if (!this.opening) {
+      const { sourceAddress } = this.config.discovery ?? {};
+      this.opening = this.bind(sourceAddress).catch((error) => {
+        this.opening = null;
+        throw error;
+      });
+    }
+    return this.opening;
+  }
+
+  private bind(sourceAddress?: string): Promise<dgram.Socket> {
     return new Promise((resolve, reject) => {
-      const userInterfaces = Network.subnets();
-      const clients: IDeviceDiscoveredProps[] = [];
       const socket = dgram.createSocket('udp4');
 
-      socket.on('error', (err) => {
+      socket.once('error', (err) => {
         socket.close();
         reject(err);
       });
 
-      socket.on('message', (msg) => {
+      socket.on('message', (msg, rinfo) => {
         const parts = msg.toString().split(',');
 
         if (parts.length !== 3) {
           return;
         }
         const [ipAddress, uniqueId, modelNumber] = parts;
-
-        if (clients.findIndex((item) => item.uniqueId === uniqueId) === -1) {
-          clients.push({ ipAddress, uniqueId, modelNumber });
-          this.logs.debug('\n%o - Discovered device...\nUniqueId: %o \nIpAddress %o \nModel: %o\n.', this.count++, uniqueId, ipAddress,modelNumber); 
-        } else {
-          this.logs.debug('\n%o - A device has been discovered that already exists. Likely due to a "fun" network layout...\nUniqueId: %o \nIpAddress %o \nModel: %o\n already exists.', this.count++, uniqueId, ipAddress,modelNumber);    
-        }
-        
+        this.emit('device', { ipAddress, uniqueId, modelNumber }, rinfo.address);
       });
 
-      socket.on('listening', () => {
-        socket.setBroadcast(true);
-        
-        const addressAlreadyScanned: string[] = [];
-        for (const userInterface of userInterfaces){
-          if( addressAlreadyScanned.includes(userInterface.broadcast)){
-            this.logs.debug('Skipping redundant scan of broadcast-address %o for Magichome devices.', userInterface.broadcast);
-            continue;
+      // replies come back to the source address, binding it picks the interface on multi-homed hosts
+      socket.bind(0, sourceAddress || undefined, () => {
+        socket.removeAllListeners('error');
+        socket.on('error', (err) => {
+          this.logs.debug('Discovery socket error: %o, it will be opened again on the next scan.', err.message);
+          if (this.socket === socket) {
+            this.close();
           }
-          addressAlreadyScanned.push(userInterface.broadcast);
-          this.logs.debug('Scanning broadcast-address: %o for Magichome devices...', userInterface.broadcast);
-          socket.send(BROADCAST_MAGIC_STRING, BROADCAST_PORT, userInterface.broadcast);
-        }
+        });
+        socket.setBroadcast(true);
+        this.socket = socket;
+        resolve(socket);
       });
-
-      socket.bind(BROADCAST_PORT);
-
-      setTimeout(() => {
-        socket.close();
-        resolve(clients);
-      }, timeout);
     });
-  } 
+  }
 
 }
 
@@ -0,0 +1,80 @@
+import { checksum } from './utils';
+import { FrameTypes, IFrame } from './types';
+import { STATE_RESPONSE_HEADER, STATE_RESPONSE_LENGTH } from './StateDecoder';
+import { TIMERS_RESPONSE_HEADER, TIMERS_RESPONSE_LENGTH } from './Timers';
+import { CLOCK_RESPONSE_HEADER, CLOCK_RESPONSE_LENGTH } from './Clock';
+
+interface IFrameDefinition {
+  type: FrameTypes;
+  header: number[];
+  length: number;
+}
+
+// every response a controller may send, identified by its header. Lengths include the checksum
+const frameDefinitions: IFrameDefinition[] = [
+  { type: FrameTypes.state, header: [STATE_RESPONSE_HEADER], length: STATE_RESPONSE_LENGTH },
+  { type: FrameTypes.timers, header: TIMERS_RESPONSE_HEADER, length: TIMERS_RESPONSE_LENGTH },
+  { type: FrameTypes.clock, header: CLOCK_RESPONSE_HEADER, length: CLOCK_RESPONSE_LENGTH },
+  { type: FrameTypes.power, header: [0xf0, 0x71], length: 4 },
+  { type: FrameTypes.power, header: [0x0f, 0x71], length: 4 },
+  { type: FrameTypes.acknowledgement, header: [0x0f, 0x21], length: 4 },
+  { type: FrameTypes.acknowledgement, header: [0x0f, 0x10], length: 4 },
+];
+
+function matchesHeader(data: Buffer, header: number[]): boolean {
+  return header.every((byte, index) => index >= data.length || data[index] === byte);
+}
+
+/**
+ ** @FrameAssembler
+ * TCP hands us a stream, not messages: one response can arrive in pieces and two responses can arrive together.
+ * Data is buffered until a complete frame with a valid checksum is available, anything that isn't part of a known
+ * frame is dropped one byte at a time until a header lines up again.
+ */
+export class FrameAssembler {
+  private buffer: Buffer = Buffer.alloc(0);
+  public discardedBytes = 0;
+
+  push(data: Buffer): IFrame[] {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    const frames: IFrame[] = [];
+
+    while (this.buffer.length > 0) {
+      const candidates = frameDefinitions.filter(definition => matchesHeader(this.buffer, definition.header));
+
+      if (candidates.length === 0) {
+        this.discard(1);
+        continue;
+      }
+
+      // wait for more data while a header or frame could still be completed
+      const complete = candidates.filter(({ header, length }) => this.buffer.length >= Math.max(header.length, length));
+      if (complete.length === 0) {
+        break;
+      }
+
+      const definition = complete.find(({ length }) => checksum(this.buffer.subarray(0, length - 1)) === this.buffer[length - 1]);
+      if (!definition) {
+        if (complete.length < candidates.length) {
+          break;
+        }
+        this.discard(1);
+        continue;
+      }
+
+      frames.push({ type: definition.type, data: Buffer.from(this.buffer.subarray(0, definition.length)) });
+      this.buffer = this.buffer.subarray(definition.length);
+    }
+
+    return frames;
+  }
+
+  reset() {
+    this.buffer = Buffer.alloc(0);
+  }
+
+  private discard(count: number) {
+    this.buffer = this.buffer.subarray(count);
+    this.discardedBytes += count;
+  }
+}
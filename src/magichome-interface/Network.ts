@@ -1,4 +1,5 @@
 import Os from 'os';
+import { INetworkInterface } from './types';
 
 export class Network {
   static masks(cidr: string): { [key: string]: string } {
@@ -35,4 +36,41 @@ export class Network {
     const masks: { [key: string]: string }[] = network.map((n) => Network.masks(n));
     return masks;
   }
+
+  /**
+   * Non-internal IPv4 interfaces with their broadcast address.
+   * Entries of include/exclude are interface names (eth0) or CIDRs (192.168.1.0/24) the interface address falls in,
+   * when include is empty every interface not excluded is used.
+   */
+  static interfaces(include: string[] = [], exclude: string[] = []): INetworkInterface[] {
+    const ifaces: NodeJS.Dict<Os.NetworkInterfaceInfo[]> = Os.networkInterfaces();
+    const results: INetworkInterface[] = [];
+    const matches = (iface: INetworkInterface, entry: string) => entry.includes('/') ? Network.contains(entry, iface.address) : entry === iface.name;
+
+    Object.keys(ifaces).forEach((name: string) => {
+      ifaces[name]!.forEach((info: Os.NetworkInterfaceInfo) => {
+        if (info.family !== 'IPv4' || info.internal !== false || !info.cidr) {
+          return;
+        }
+        const iface = { name, address: info.address, cidr: info.cidr, broadcast: Network.masks(info.cidr).broadcast };
+        if (include.length > 0 && !include.some(entry => matches(iface, entry))) {
+          return;
+        }
+        if (exclude.some(entry => matches(iface, entry))) {
+          return;
+        }
+        results.push(iface);
+      });
+    });
+    return results;
+  }
+
+  /**
+   * Whether an IPv4 address lies within a CIDR, e.g. contains('192.168.1.0/24', '192.168.1.20')
+   */
+  static contains(cidr: string, address: string): boolean {
+    const base = Network.masks(cidr).base;
+    const masked = Network.masks(`${address}/${cidr.split('/').pop()}`).base;
+    return base === masked;
+  }
 }
\ No newline at end of file
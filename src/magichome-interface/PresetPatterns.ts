@@ -0,0 +1,196 @@
+import { IAnimation } from './types';
+
+// built-in effects selected with the 0x61 command, keyed by the name used in config
+const presetPatternsMap: Map<string, IAnimation> = new Map([
+  [
+    'sevenColorCrossFade',
+    {
+      name: 'Seven Color Cross Fade',
+      presetPattern: 0x25,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'redGradualChange',
+    {
+      name: 'Red Gradual Change',
+      presetPattern: 0x26,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'greenGradualChange',
+    {
+      name: 'Green Gradual Change',
+      presetPattern: 0x27,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'blueGradualChange',
+    {
+      name: 'Blue Gradual Change',
+      presetPattern: 0x28,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'yellowGradualChange',
+    {
+      name: 'Yellow Gradual Change',
+      presetPattern: 0x29,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'cyanGradualChange',
+    {
+      name: 'Cyan Gradual Change',
+      presetPattern: 0x2a,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'purpleGradualChange',
+    {
+      name: 'Purple Gradual Change',
+      presetPattern: 0x2b,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'whiteGradualChange',
+    {
+      name: 'White Gradual Change',
+      presetPattern: 0x2c,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'redGreenCrossFade',
+    {
+      name: 'Red Green Cross Fade',
+      presetPattern: 0x2d,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'redBlueCrossFade',
+    {
+      name: 'Red Blue Cross Fade',
+      presetPattern: 0x2e,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'greenBlueCrossFade',
+    {
+      name: 'Green Blue Cross Fade',
+      presetPattern: 0x2f,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'sevenColorStrobeFlash',
+    {
+      name: 'Seven Color Strobe Flash',
+      presetPattern: 0x30,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'redStrobeFlash',
+    {
+      name: 'Red Strobe Flash',
+      presetPattern: 0x31,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'greenStrobeFlash',
+    {
+      name: 'Green Strobe Flash',
+      presetPattern: 0x32,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'blueStrobeFlash',
+    {
+      name: 'Blue Strobe Flash',
+      presetPattern: 0x33,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'yellowStrobeFlash',
+    {
+      name: 'Yellow Strobe Flash',
+      presetPattern: 0x34,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'cyanStrobeFlash',
+    {
+      name: 'Cyan Strobe Flash',
+      presetPattern: 0x35,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'purpleStrobeFlash',
+    {
+      name: 'Purple Strobe Flash',
+      presetPattern: 0x36,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'whiteStrobeFlash',
+    {
+      name: 'White Strobe Flash',
+      presetPattern: 0x37,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+  [
+    'sevenColorJumping',
+    {
+      name: 'Seven Color Jumping',
+      presetPattern: 0x38,
+      brightnessInterrupt: true,
+      hueSaturationInterrupt: true,
+    },
+  ],
+]);
+
+function getPresetPattern(presetPattern: number): IAnimation | null {
+  for (const preset of presetPatternsMap.values()) {
+    if (preset.presetPattern === presetPattern) {
+      return preset;
+    }
+  }
+  return null;
+}
+
+export { presetPatternsMap, getPresetPattern };
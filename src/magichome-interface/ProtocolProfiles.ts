@@ -0,0 +1,77 @@
+import { IColorChannels, IDeviceProps, IProtocolProfile, IProtocolQuirk, WhiteChannelLayouts } from './types';
+
+const COMMAND_SET_COLOR = 0x31;
+
+const defaultProfile: IProtocolProfile = {
+  colorFrameLength: 7,
+  powerOnBeforeColor: false,
+  useChecksum: true,
+  whiteChannels: WhiteChannelLayouts.none,
+};
+
+/**
+ * Every quirk whose conditions all match the device is applied on top of the default profile, in order,
+ * so later entries win. A condition that is left out matches any device.
+ * New firmware quirks only need a new entry here.
+ */
+const protocolQuirks: IProtocolQuirk[] = [
+  {
+    description: 'RGBW controllers drive a single white channel',
+    hardwareVersions: [0x04, 0x06, 0x44],
+    profile: { whiteChannels: WhiteChannelLayouts.warm },
+  },
+  {
+    description: 'RGBWW controllers use the 8 byte frame with warm and cold white',
+    hardwareVersions: [0x07, 0x25, 0x35, 0x52],
+    profile: { colorFrameLength: 8, whiteChannels: WhiteChannelLayouts.warmCold },
+  },
+  {
+    description: 'Firmware 2 to 5 ignores color frames while switched off',
+    firmwareVersions: [2, 3, 4, 5],
+    profile: { powerOnBeforeColor: true },
+  },
+  {
+    description: 'Firmware 8 ignores color frames while switched off',
+    firmwareVersions: [8],
+    profile: { powerOnBeforeColor: true },
+  },
+  {
+    description: 'HF-LPB100-ZJ200 modules on firmware 1 ignore color frames while switched off',
+    firmwareVersions: [1],
+    modelNumbers: ['HF-LPB100-ZJ200'],
+    profile: { powerOnBeforeColor: true },
+  },
+];
+
+function matchesQuirk(quirk: IProtocolQuirk, hardwareVersion: number, firmwareVersion: number, modelNumber: string): boolean {
+  return (!quirk.hardwareVersions || quirk.hardwareVersions.includes(hardwareVersion))
+    && (!quirk.firmwareVersions || quirk.firmwareVersions.includes(firmwareVersion))
+    && (!quirk.modelNumbers || quirk.modelNumbers.some(model => modelNumber.includes(model)));
+}
+
+export function getProtocolProfile(device: IDeviceProps): IProtocolProfile {
+  const hardwareVersion = Number(device.controllerHardwareVersion);
+  const firmwareVersion = Number(device.controllerFirmwareVersion);
+  const modelNumber = device.modelNumber ?? '';
+
+  return protocolQuirks
+    .filter(quirk => matchesQuirk(quirk, hardwareVersion, firmwareVersion, modelNumber))
+    .reduce((profile, quirk) => Object.assign(profile, quirk.profile), { ...defaultProfile });
+}
+
+/**
+ ** @buildColorFrame
+ * 7 bytes: 0x31, red, green, blue, white, mask, 0x0F
+ * 8 bytes: 0x31, red, green, blue, warm white, cold white, mask, 0x0F
+ * white channels the device doesn't have are sent as 0
+ */
+export function buildColorFrame(profile: IProtocolProfile, channels: IColorChannels): number[] {
+  const { red, green, blue, mask } = channels;
+  const warmWhite = profile.whiteChannels === WhiteChannelLayouts.none ? 0 : channels.warmWhite;
+  const coldWhite = profile.whiteChannels === WhiteChannelLayouts.warmCold ? channels.coldWhite : 0;
+
+  if (profile.colorFrameLength === 8) {
+    return [COMMAND_SET_COLOR, red, green, blue, warmWhite, coldWhite, mask, 0x0F];
+  }
+  return [COMMAND_SET_COLOR, red, green, blue, warmWhite, mask, 0x0F];
+}
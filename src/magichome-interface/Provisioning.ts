@@ -0,0 +1,116 @@
+import type { PlatformConfig } from 'homebridge';
+import { Logs } from '../logs';
+import { ATClient } from './ATClient';
+import { getDiscover } from './Discover';
+import { IDeviceDiscoveredProps } from './types';
+import { sleep } from './utils';
+
+// address of a controller in access point mode, on its own "LEDnet..." network
+export const ACCESS_POINT_ADDRESS = '10.10.123.3';
+const REBOOT_TIME = 10000;
+const SCAN_INTERVAL = 5000;
+
+export interface IProvisioningOptions {
+  ssid: string;
+  password: string; // empty for an open network
+  host?: string;
+  timeout?: number; // seconds to wait for the device to show up on the network
+}
+
+/**
+ ** @Provisioner
+ * puts a new controller on the Wi-Fi network without the MagicHome app. The computer running this joins the
+ * controller's own access point, the credentials are sent with AT commands, and after its reboot the controller
+ * is looked for with a normal discovery scan.
+ */
+export class Provisioner {
+  constructor(
+    private readonly logs: Logs,
+    private readonly config: PlatformConfig,
+  ) {}
+
+  async provision(options: IProvisioningOptions): Promise<IDeviceDiscoveredProps | null> {
+    const { ssid, password, host = ACCESS_POINT_ADDRESS, timeout = 120 } = options;
+
+    if (!ssid) {
+      this.logs.error('An SSID is required.');
+      return null;
+    }
+    if (password && (password.length < 8 || password.length > 63)) {
+      this.logs.error('A WPA2 password must be 8 to 63 characters long.');
+      return null;
+    }
+
+    const device = await this.configure(host, ssid, password);
+    if (!device) {
+      return null;
+    }
+
+    this.logs.info('Device %o is rebooting. Reconnect this computer to %o if it doesn\'t do so by itself.', device.uniqueId, ssid);
+    await sleep(REBOOT_TIME);
+    return this.waitForDevice(device.uniqueId, timeout * 1000);
+  }
+
+  /**
+   * Sends the credentials to the device in access point mode and reboots it into station mode.
+   */
+  private async configure(host: string, ssid: string, password: string): Promise<IDeviceDiscoveredProps | null> {
+    const client = new ATClient(this.logs, host, 2000);
+    try {
+      const device = await client.start();
+      if (!device) {
+        this.logs.error('No device answered at %o. Connect this computer to the device\'s "LEDnet..." Wi-Fi network first.', host);
+        return null;
+      }
+
+      const mode = await client.command('AT+WMODE');
+      if (mode !== 'AP') {
+        this.logs.error('Device %o at %o is not in access point mode (mode %o). Reset it to pair it again.', device.uniqueId, host, mode);
+        return null;
+      }
+      this.logs.info('Found device %o (%o) in access point mode.', device.uniqueId, device.modelNumber);
+
+      const key = password ? `WPA2PSK,AES,${password}` : 'OPEN,NONE';
+      for (const command of [`AT+WSSSID=${ssid}`, `AT+WSKEY=${key}`, 'AT+WMODE=STA']) {
+        if (await client.command(command) === null) {
+          this.logs.error('Device %o rejected %o.', device.uniqueId, command.split('=')[0]);
+          return null;
+        }
+      }
+      // the module reboots right away, there may be no reply
+      await client.command('AT+Z');
+      return device;
+    } catch (error) {
+      this.logs.error('Unable to talk to the device at %o: %o', host, error.message);
+      return null;
+    } finally {
+      client.close();
+    }
+  }
+
+  /**
+   * Scans until the device appears on the network or the timeout passes.
+   */
+  async waitForDevice(uniqueId: string, timeout: number): Promise<IDeviceDiscoveredProps | null> {
+    const discover = getDiscover(this.logs, this.config);
+    const deadline = Date.now() + timeout;
+
+    while (Date.now() < deadline) {
+      try {
+        const device = (await discover.scan(2000)).find(discovered => discovered.uniqueId === uniqueId);
+        if (device) {
+          this.logs.info('Device %o joined the network at %o.', uniqueId, device.ipAddress);
+          return device;
+        }
+      } catch (error) {
+        // no network while the computer switches back from the device's access point
+        this.logs.debug('Scan failed: %o', error.message);
+      }
+      this.logs.info('Waiting for device %o to join the network...', uniqueId);
+      await sleep(SCAN_INTERVAL);
+    }
+
+    this.logs.error('Device %o did not show up within %o seconds. Check the SSID and password, then reset the device and try again.', uniqueId, Math.round(timeout / 1000));
+    return null;
+  }
+}
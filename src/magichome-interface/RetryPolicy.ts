@@ -0,0 +1,88 @@
+import type { PlatformConfig } from 'homebridge';
+import { CircuitStates, IRetryPolicy } from './types';
+import { matchesUniqueId } from './utils';
+
+const defaultRetryPolicy: IRetryPolicy = {
+  attempts: 3,
+  initialDelay: 250, // milliseconds
+  maxDelay: 4000, // milliseconds
+  connectTimeout: 3000, // milliseconds
+  failureThreshold: 5, // failed requests in a row
+  probeInterval: 60, // seconds
+};
+
+/**
+ ** @getRetryPolicy
+ * the retryPolicy settings from config, overridden per device by an entry in retryPolicy.devices
+ */
+export function getRetryPolicy(config: PlatformConfig, uniqueId: string): IRetryPolicy {
+  const { devices, ...defaults } = config.retryPolicy ?? {};
+  const deviceOverrides = (devices ?? []).find(entry => matchesUniqueId(entry?.uniqueId, uniqueId)) ?? {};
+  const policy = { ...defaultRetryPolicy };
+
+  for (const key of Object.keys(defaultRetryPolicy)) {
+    policy[key] = deviceOverrides[key] ?? defaults[key] ?? defaultRetryPolicy[key];
+  }
+  policy.attempts = Math.max(1, policy.attempts);
+  return policy;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to initialDelay * 2^(attempt - 1), capped at maxDelay,
+ * so several accessories retrying the same device don't all come back at once.
+ */
+export function getBackoffDelay(policy: IRetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(2, attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ ** @CircuitBreaker
+ * counts requests which failed after all their retries. Once failureThreshold is reached the circuit opens
+ * and requests fail right away, until a probe (half open) gets an answer from the device again.
+ */
+export class CircuitBreaker {
+  public state = CircuitStates.closed;
+  private consecutiveFailures = 0;
+
+  get failures(): number {
+    return this.consecutiveFailures;
+  }
+
+  allowsRequests(): boolean {
+    return this.state === CircuitStates.closed;
+  }
+
+  /**
+   * Returns true when this success closed an open circuit.
+   */
+  recordSuccess(): boolean {
+    const recovered = this.state !== CircuitStates.closed;
+    this.state = CircuitStates.closed;
+    this.consecutiveFailures = 0;
+    return recovered;
+  }
+
+  /**
+   * Returns true when this failure opened the circuit.
+   */
+  recordFailure(failureThreshold: number): boolean {
+    this.consecutiveFailures++;
+    if (this.state === CircuitStates.halfOpen) {
+      this.state = CircuitStates.open;
+      return false;
+    }
+    // a threshold of 0 disables the breaker
+    if (this.state === CircuitStates.closed && failureThreshold > 0 && this.consecutiveFailures >= failureThreshold) {
+      this.state = CircuitStates.open;
+      return true;
+    }
+    return false;
+  }
+
+  halfOpen() {
+    if (this.state === CircuitStates.open) {
+      this.state = CircuitStates.halfOpen;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { checksum, delayToSpeed } from './utils';
+import { ILightState, OperatingModes } from './types';
+
+/*
+ * Layout of the 14 byte 0x81 state response
+ *
+ *  0: header (0x81)          7: green
+ *  1: hardware version       8: blue
+ *  2: power (0x23 on)        9: warm white
+ *  3: pattern                10: firmware version
+ *  4: remote override flag   11: cold white
+ *  5: effect delay (1-31)    12: color mode (0xF0 color, 0x0F white, 0xFF both)
+ *  6: red                    13: checksum
+ */
+export const STATE_RESPONSE_HEADER = 0x81;
+export const STATE_RESPONSE_LENGTH = 14;
+
+const POWER_ON = 0x23;
+
+const PATTERN_CUSTOM = 0x60;
+const PATTERN_STATIC = 0x61;
+const PATTERN_MUSIC = 0x62;
+const PATTERN_STATIC_LEGACY = 0x41;
+const PRESET_PATTERN_FIRST = 0x25;
+const PRESET_PATTERN_LAST = 0x38;
+
+const COLOR_MODE_COLOR = 0xF0;
+const COLOR_MODE_WHITE = 0x0F;
+const COLOR_MODE_BOTH = 0xFF;
+
+// byte 4 reads 0x23 once the output was last changed by the IR/RF remote instead of over the network
+const REMOTE_OVERRIDE = 0x23;
+
+export function isPresetPattern(pattern: number): boolean {
+  return pattern >= PRESET_PATTERN_FIRST && pattern <= PRESET_PATTERN_LAST;
+}
+
+export function isValidStateResponse(data: Buffer): boolean {
+  if (data == null || data.length < STATE_RESPONSE_LENGTH || data.readUInt8(0) !== STATE_RESPONSE_HEADER) {
+    return false;
+  }
+  const chk = checksum(data.subarray(0, STATE_RESPONSE_LENGTH - 1));
+  return chk === data.readUInt8(STATE_RESPONSE_LENGTH - 1);
+}
+
+function decodeOperatingMode(pattern: number, colorMode: number): OperatingModes {
+  if (pattern === PATTERN_STATIC || pattern === PATTERN_STATIC_LEGACY) {
+    switch (colorMode) {
+      case COLOR_MODE_WHITE:
+        return OperatingModes.white;
+      case COLOR_MODE_BOTH:
+        return OperatingModes.colorAndWhite;
+      case COLOR_MODE_COLOR:
+        return OperatingModes.color;
+      default:
+        // older firmware leaves the color mode byte empty
+        return OperatingModes.unknown;
+    }
+  } else if (pattern === PATTERN_CUSTOM) {
+    return OperatingModes.custom;
+  } else if (pattern === PATTERN_MUSIC) {
+    return OperatingModes.music;
+  } else if (isPresetPattern(pattern)) {
+    return OperatingModes.preset;
+  }
+  return OperatingModes.unknown;
+}
+
+/**
+ ** @decodeStateResponse
+ * turn a raw 0x81 state response into a light state, null when it is malformed
+ */
+export function decodeStateResponse(data: Buffer): ILightState | null {
+  if (!isValidStateResponse(data)) {
+    return null;
+  }
+
+  const pattern = data.readUInt8(3);
+  const colorMode = data.readUInt8(12);
+
+  return {
+    debugBuffer: data.subarray(0, STATE_RESPONSE_LENGTH),
+    controllerHardwareVersion: data.readUInt8(1),
+    isOn: data.readUInt8(2) === POWER_ON,
+    operatingMode: decodeOperatingMode(pattern, colorMode),
+    presetPattern: isPresetPattern(pattern) ? pattern : null,
+    effectSpeed: delayToSpeed(data.readUInt8(5)),
+    remoteOverride: data.readUInt8(4) === REMOTE_OVERRIDE,
+    RGB: {
+      red: data.readUInt8(6),
+      green: data.readUInt8(7),
+      blue: data.readUInt8(8),
+    },
+    whiteValues: {
+      warmWhite: data.readUInt8(9),
+      coldWhite: data.readUInt8(11),
+    },
+    controllerFirmwareVersion: data.readUInt8(10),
+  };
+}
+
+/**
+ ** @isSameLightState
+ * compare everything homekit can show, ignoring the raw frame
+ */
+export function isSameLightState(a: ILightState, b: ILightState): boolean {
+  if (a == null || b == null) {
+    return a == b;
+  }
+  return a.isOn === b.isOn
+    && a.RGB?.red === b.RGB?.red && a.RGB?.green === b.RGB?.green && a.RGB?.blue === b.RGB?.blue
+    && a.whiteValues?.warmWhite === b.whiteValues?.warmWhite && a.whiteValues?.coldWhite === b.whiteValues?.coldWhite
+    && a.operatingMode === b.operatingMode
+    && a.presetPattern === b.presetPattern
+    && a.effectSpeed === b.effectSpeed;
+}
@@ -0,0 +1,193 @@
+import { checksum, clamp, delayToSpeed, matchesUniqueId, speedToDelay } from './utils';
+import { ITimer, TimerActions, Weekdays } from './types';
+import { isPresetPattern } from './StateDecoder';
+import { presetPatternsMap } from './PresetPatterns';
+
+export const COMMAND_QUERY_TIMERS = Uint8Array.from([0x22, 0x2a, 0x2b, 0x0f]);
+const COMMAND_SET_TIMERS = 0x21;
+
+export const MAX_TIMERS = 6;
+const TIMER_LENGTH = 14;
+
+// 0x0F 0x22, six timers, one unused byte and the checksum
+export const TIMERS_RESPONSE_HEADER = [0x0f, 0x22];
+export const TIMERS_RESPONSE_LENGTH = 2 + MAX_TIMERS * TIMER_LENGTH + 2;
+
+const TIMER_ACTIVE = 0xf0;
+const TIMER_INACTIVE = 0x0f;
+const ACTION_ON = 0xf0;
+const ACTION_OFF = 0x0f;
+const PATTERN_NONE = 0x00;
+const PATTERN_COLOR = 0x61;
+
+const weekdayBits = {
+  [Weekdays.monday]: 0x02,
+  [Weekdays.tuesday]: 0x04,
+  [Weekdays.wednesday]: 0x08,
+  [Weekdays.thursday]: 0x10,
+  [Weekdays.friday]: 0x20,
+  [Weekdays.saturday]: 0x40,
+  [Weekdays.sunday]: 0x80,
+};
+
+/*
+ * Layout of a single 14 byte timer
+ *
+ *  0: active (0xF0) / inactive (0x0F)     7: repeat day mask, 0 for a one-off timer
+ *  1: year - 2000 (one-off timers only)   8: pattern (0x00 power only, 0x61 color, or a preset)
+ *  2: month                               9-11: red, green, blue or preset delay in byte 9
+ *  3: day                                 12: warm white
+ *  4: hour                                13: turn on (0xF0) / off (0x0F)
+ *  5: minute
+ *  6: second
+ */
+function decodeTimer(data: Buffer): ITimer {
+  const repeatMask = data.readUInt8(7);
+  const pattern = data.readUInt8(8);
+  const turnOn = data.readUInt8(13) === ACTION_ON;
+
+  const timer: ITimer = {
+    isActive: data.readUInt8(0) === TIMER_ACTIVE,
+    time: { hour: data.readUInt8(4), minute: data.readUInt8(5), second: data.readUInt8(6) },
+    repeatDays: Object.values(Weekdays).filter(day => (repeatMask & weekdayBits[day]) !== 0),
+    action: turnOn ? TimerActions.on : TimerActions.off,
+  };
+
+  if (repeatMask === 0) {
+    timer.date = { year: data.readUInt8(1) + 2000, month: data.readUInt8(2), day: data.readUInt8(3) };
+  }
+
+  if (turnOn && pattern === PATTERN_COLOR) {
+    timer.action = TimerActions.color;
+    timer.color = { red: data.readUInt8(9), green: data.readUInt8(10), blue: data.readUInt8(11) };
+    timer.warmWhite = data.readUInt8(12);
+  } else if (turnOn && isPresetPattern(pattern)) {
+    timer.action = TimerActions.preset;
+    timer.presetPattern = pattern;
+    timer.effectSpeed = delayToSpeed(data.readUInt8(9));
+  }
+
+  return timer;
+}
+
+function encodeTimer(timer: ITimer): number[] {
+  const bytes = new Array(TIMER_LENGTH).fill(0);
+  if (!timer || !timer.isActive) {
+    bytes[0] = TIMER_INACTIVE;
+    return bytes;
+  }
+
+  bytes[0] = TIMER_ACTIVE;
+  if (timer.date && timer.repeatDays.length === 0) {
+    bytes[1] = timer.date.year - 2000;
+    bytes[2] = timer.date.month;
+    bytes[3] = timer.date.day;
+  }
+  bytes[4] = timer.time.hour;
+  bytes[5] = timer.time.minute;
+  bytes[6] = timer.time.second ?? 0;
+  bytes[7] = timer.repeatDays.reduce((mask, day) => mask | weekdayBits[day], 0);
+  bytes[8] = PATTERN_NONE;
+  bytes[13] = timer.action === TimerActions.off ? ACTION_OFF : ACTION_ON;
+
+  if (timer.action === TimerActions.color) {
+    bytes[8] = PATTERN_COLOR;
+    bytes[9] = Math.round(clamp(timer.color?.red ?? 0, 0, 255));
+    bytes[10] = Math.round(clamp(timer.color?.green ?? 0, 0, 255));
+    bytes[11] = Math.round(clamp(timer.color?.blue ?? 0, 0, 255));
+    bytes[12] = Math.round(clamp(timer.warmWhite ?? 0, 0, 255));
+  } else if (timer.action === TimerActions.preset) {
+    bytes[8] = timer.presetPattern;
+    bytes[9] = speedToDelay(timer.effectSpeed ?? 50);
+  }
+
+  return bytes;
+}
+
+export function isValidTimersResponse(data: Buffer): boolean {
+  if (data == null || data.length < TIMERS_RESPONSE_LENGTH
+    || data.readUInt8(0) !== TIMERS_RESPONSE_HEADER[0] || data.readUInt8(1) !== TIMERS_RESPONSE_HEADER[1]) {
+    return false;
+  }
+  return checksum(data.subarray(0, TIMERS_RESPONSE_LENGTH - 1)) === data.readUInt8(TIMERS_RESPONSE_LENGTH - 1);
+}
+
+/**
+ ** @decodeTimers
+ * turn the 0x22 timer dump into all six timers, inactive ones included
+ */
+export function decodeTimers(data: Buffer): ITimer[] | null {
+  if (!isValidTimersResponse(data)) {
+    return null;
+  }
+
+  const timers: ITimer[] = [];
+  for (let i = 0; i < MAX_TIMERS; i++) {
+    const start = 2 + i * TIMER_LENGTH;
+    timers.push(decodeTimer(data.subarray(start, start + TIMER_LENGTH)));
+  }
+  return timers;
+}
+
+/**
+ ** @buildSetTimersCommand
+ * 0x21, six timers, 0x00, 0xF0. Missing timers are written as inactive so stale slots get cleared
+ */
+export function buildSetTimersCommand(timers: ITimer[]): number[] {
+  const command = [COMMAND_SET_TIMERS];
+  for (let i = 0; i < MAX_TIMERS; i++) {
+    command.push(...encodeTimer(timers[i]));
+  }
+  command.push(0x00, 0xf0);
+  return command;
+}
+
+export function timersAreEqual(a: ITimer[], b: ITimer[]): boolean {
+  const encodedA = buildSetTimersCommand(a);
+  const encodedB = buildSetTimersCommand(b);
+  return encodedA.every((byte, index) => byte === encodedB[index]);
+}
+
+/**
+ ** @getConfiguredTimers
+ * timers from config which apply to a device, either listed by unique id or without any unique ids (all devices)
+ * entries that can't be understood are skipped
+ */
+export function getConfiguredTimers(timersConfig: any[], uniqueId: string): ITimer[] {
+  const timers: ITimer[] = [];
+
+  for (const entry of timersConfig ?? []) {
+    const { uniqueIds, time, days, action, color, warmWhite, presetPattern, speed } = entry || {};
+    if (Array.isArray(uniqueIds) && uniqueIds.length > 0 && !uniqueIds.some(configured => matchesUniqueId(configured, uniqueId))) {
+      continue;
+    }
+
+    const [hour, minute] = typeof time === 'string' ? time.split(':').map(part => parseInt(part, 10)) : [];
+    if (!(hour >= 0 && hour < 24 && minute >= 0 && minute < 60) || !Object.values(TimerActions).includes(action)) {
+      continue;
+    }
+
+    const timer: ITimer = {
+      isActive: true,
+      time: { hour, minute, second: 0 },
+      // a timer without days runs every day
+      repeatDays: Array.isArray(days) && days.length > 0 ? Object.values(Weekdays).filter(day => days.includes(day)) : Object.values(Weekdays),
+      action,
+    };
+
+    if (action === TimerActions.color) {
+      timer.color = { red: color?.red ?? 0, green: color?.green ?? 0, blue: color?.blue ?? 0 };
+      timer.warmWhite = warmWhite ?? 0;
+    } else if (action === TimerActions.preset) {
+      if (!presetPatternsMap.has(presetPattern)) {
+        continue;
+      }
+      timer.presetPattern = presetPatternsMap.get(presetPattern).presetPattern;
+      timer.effectSpeed = speed ?? 50;
+    }
+
+    timers.push(timer);
+  }
+
+  return timers;
+}
@@ -1,113 +1,409 @@
 import net from 'net';
+import { EventEmitter } from 'events';
 import Queue from 'promise-queue';
-import { checksum } from './utils';
+import { checksum, sleep } from './utils';
 import type { PlatformConfig } from 'homebridge';
 import { getLogs } from '../logs';
+import { decodeStateResponse } from './StateDecoder';
+import { FrameTypes, ILightState, IRetryPolicy, ITimer } from './types';
+import { FrameAssembler } from './Framing';
+import { CircuitBreaker, getBackoffDelay, getRetryPolicy } from './RetryPolicy';
+import { COMMAND_QUERY_TIMERS, buildSetTimersCommand, decodeTimers } from './Timers';
+import { COMMAND_QUERY_CLOCK, buildSetClockCommand, decodeClock } from './Clock';
 
 const COMMAND_QUERY_STATE: Uint8Array = Uint8Array.from([0x81, 0x8a, 0x8b]);
 
 const PORT = 5577;
+const IDLE_TIMEOUT = 30000; // close pooled sockets which have seen no traffic for this long
+const KEEP_ALIVE_DELAY = 5000;
+const LISTEN_CONNECT_TIMEOUT = 2000;
+const MIN_RECONNECT_DELAY = 5000;
+const MAX_RECONNECT_DELAY = 60000;
+
+// one transport per host, shared by the platform and the accessories
+const transports: Map<string, Transport> = new Map();
 
 function wait(emitter: net.Socket, eventName: string, timeout: number) {
 
   return new Promise((resolve, reject) => {
-    let complete = false;
-
-    const waitTimeout: any = setTimeout(() => {
-      complete = true; // mark the job as done
-      resolve(null);
-    }, timeout);
 
-    // listen for the first event, then stop listening (once)
-    emitter.once(eventName, (args: any ) => {
+    // the socket outlives a single request, so every listener added here must be removed again
+    const cleanup = () => {
       clearTimeout(waitTimeout); // stop the timeout from executing
+      emitter.removeListener(eventName, onEvent);
+      emitter.removeListener('close', onClose);
+      emitter.removeListener('error', onError);
+    };
 
-      if (!complete) {
-        complete = true; // mark the job as done
-        resolve(args);
-      }
-    });
-
-    emitter.once('close', () => {
-      clearTimeout(waitTimeout); // stop the timeout from executing
+    const onEvent = (args: any) => {
+      cleanup();
+      resolve(args);
+    };
 
-      // if the socket closed before we resolved the promise, reject the promise
-      if (!complete) {
-        complete = true;
-        reject(null);
-      }
-    });
+    // if the socket closed before we resolved the promise, reject the promise
+    const onClose = () => {
+      cleanup();
+      reject(null);
+    };
 
     // handle the first error and reject the promise
-    emitter.on('error', (e) => {
-      clearTimeout(waitTimeout); // stop the timeout from executing
+    const onError = (e) => {
+      cleanup();
+      reject(e);
+    };
 
-      if (!complete) {
-        complete = true;
-        reject(e);
-      }
-    });
+    const waitTimeout: any = setTimeout(() => {
+      cleanup();
+      resolve(null);
+    }, timeout);
 
+    // listen for the first event, then stop listening (once)
+    emitter.once(eventName, onEvent);
+    emitter.once('close', onClose);
+    emitter.once('error', onError);
   });
 }
 
-export class Transport {
+/**
+ * Returns the transport for a host, creating it on first use.
+ * Everybody talking to the same device shares its queue and socket.
+ * The unique id selects the device's retry policy, it may be supplied by a later caller.
+ */
+export function getTransport(host: string, config: PlatformConfig, uniqueId: string = null): Transport {
+  let transport = transports.get(host);
+  if (!transport) {
+    transport = new Transport(host, config);
+    transports.set(host, transport);
+  }
+  if (uniqueId) {
+    transport.uniqueId = uniqueId;
+  }
+  return transport;
+}
+
+/**
+ * Retires the transport of an address the device has left. A transport another device took over
+ * in the meantime (addresses swapped by DHCP) is left alone.
+ */
+export function releaseTransport(host: string, uniqueId: string) {
+  const transport = transports.get(host);
+  if (!transport || (transport.uniqueId && transport.uniqueId !== uniqueId)) {
+    return;
+  }
+  transport.stopListening();
+  transport.stopProbing();
+  transport.disconnect();
+  transport.removeAllListeners();
+  transports.delete(host);
+}
+
+/**
+ * Closes every pooled socket, used when homebridge shuts down.
+ */
+export function disconnectAll() {
+  for (const transport of transports.values()) {
+    transport.stopListening();
+    transport.stopProbing();
+    transport.disconnect();
+  }
+  transports.clear();
+}
+
+/**
+ * Emits 'state' with the decoded ILightState whenever the device sends a state frame nobody asked for,
+ * e.g. after it was changed by the MagicHome app or an IR/RF remote. See listen().
+ * Emits 'reachability' with true/false when the device stops or starts answering again.
+ * Emits 'failure' with the number of failed requests in a row whenever a request or probe fails.
+ */
+export class Transport extends EventEmitter {
   logs = getLogs();
   host: any;
-  socket: any;
+  socket: net.Socket;
   queue: any;
+  listening = false;
+  assembler = new FrameAssembler();
+  pendingRead: { expectedResponse: FrameTypes; resolve: (data: Buffer) => void } = null;
+  reconnectTimer: NodeJS.Timeout = null;
+  reconnectDelay = MIN_RECONNECT_DELAY;
+  uniqueId: string = null;
+  breaker = new CircuitBreaker();
+  probeTimer: NodeJS.Timeout = null;
+  reachable = true;
   /**
    * @param {string} host - hostname
    * @param {number} timeout - connection timeout (in seconds)
    */
   constructor(host: any, public readonly config: PlatformConfig) {
+    super();
     this.host = host;
     this.socket = null;
     this.queue = new Queue(1, Infinity); // 1 concurrent, infinite size
   }
 
-  async connect(fn: any, _timeout = 200) {
-    const options = {
-      host: this.host,
-      port: PORT,
-      timeout: _timeout,
-    };
+  /**
+   * A pooled socket is healthy while it is connected and writable.
+   * Sockets closed by the device, by an error or by the idle timeout are dropped from the pool.
+   */
+  isConnected(): boolean {
+    return this.socket != null && !this.socket.destroyed && !this.socket.connecting && this.socket.writable;
+  }
+
+  get retryPolicy(): IRetryPolicy {
+    return getRetryPolicy(this.config, this.uniqueId);
+  }
+
+  async open(_timeout = this.retryPolicy.connectTimeout) {
+    this.disconnect();
+
+    this.assembler.reset();
+    const socket = net.connect({ host: this.host, port: PORT });
+    socket.setKeepAlive(true, KEEP_ALIVE_DELAY);
+    socket.setTimeout(IDLE_TIMEOUT);
+
+    // a listening connection is meant to sit idle, keep-alive tells us if the device went away
+    socket.on('timeout', () => {
+      if (!this.listening) {
+        this.logs.trace('Closing idle connection to %o', this.host);
+        socket.destroy();
+      }
+    });
+
+    socket.on('data', (data: Buffer) => {
+      this.onData(data);
+    });
+
+    socket.on('connect', () => {
+      this.reconnectDelay = MIN_RECONNECT_DELAY;
+    });
+
+    // errors are surfaced to the pending request through wait(), here we only retire the socket
+    socket.on('error', () => {
+      socket.destroy();
+    });
+
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      if (this.listening && !this.isConnected()) {
+        this.scheduleReconnect();
+      }
+    });
+
+    this.socket = socket;
+    await wait(socket, 'connect', _timeout);
+    if (socket.connecting) {
+      socket.destroy();
+      throw { code: 'ETIMEDOUT', address: this.host, port: PORT };
+    }
+  }
+
+  async connect(fn: any) {
 
     let result;
     try {
-      this.socket = net.connect(options);
-      await wait(this.socket, 'connect', _timeout = 200);
-      result = await fn();
+      const reused = this.isConnected();
+      if (!reused) {
+        await this.open();
+      }
+
+      try {
+        result = await fn();
+      } catch (e) {
+        if (!reused) {
+          throw e;
+        }
+        // the device dropped the pooled socket since our last request, reconnect once
+        this.logs.trace('Connection to %o went stale, reconnecting', this.host);
+        await this.open();
+        result = await fn();
+      }
+
       return result;
     } catch (e) {
-      const { code, address, port } = e;
+      const { code, address, port } = e || {};
       if(code){
         // No need to show error here, shown upstream
         // this.log.debug(`Unable to connect to ${address} ${port} (code: ${code})`);
-      } else {
+      } else if (e) {
         this.logs.error('transport.ts error:', e);
       }
-    } finally {
+      this.disconnect();
+    }
+
+    return null;
+  }
+
+  /**
+   ** @listen
+   * keep the connection to the device open, reconnecting with backoff when it drops,
+   * so state frames pushed by the device reach the 'state' listeners
+   */
+  listen() {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+    this.reconnect();
+  }
+
+  stopListening() {
+    this.listening = false;
+    clearTimeout(this.reconnectTimer);
+  }
+
+  reconnect() {
+    // through the queue, so a request in flight never has its socket replaced
+    this.queue.add(async () => {
+      if (!this.listening || this.isConnected()) {
+        return;
+      }
+      try {
+        await this.open(Math.max(LISTEN_CONNECT_TIMEOUT, this.retryPolicy.connectTimeout));
+      } catch (e) {
+        this.logs.trace('Unable to open listening connection to %o', this.host);
+      }
+    });
+  }
+
+  scheduleReconnect() {
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => this.reconnect(), this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+
+  /**
+   * Complete frames go to the pending read when it expects that kind of response,
+   * state frames nobody asked for were pushed by the device.
+   */
+  onData(data: Buffer) {
+    const discardedBytes = this.assembler.discardedBytes;
+    const frames = this.assembler.push(data);
+    if (this.assembler.discardedBytes > discardedBytes) {
+      this.logs.trace('Discarded %o unrecognised bytes from %o', this.assembler.discardedBytes - discardedBytes, this.host);
+    }
+
+    for (const { type, data: frame } of frames) {
+      const pendingRead = this.pendingRead;
+      if (pendingRead && (pendingRead.expectedResponse == null || pendingRead.expectedResponse === type)) {
+        this.pendingRead = null;
+        pendingRead.resolve(frame);
+      } else if (type === FrameTypes.state) {
+        this.onUnsolicitedData(frame);
+      } else {
+        this.logs.trace('Ignoring unexpected %o response from %o', type, this.host);
+      }
+    }
+  }
+
+  onUnsolicitedData(data: Buffer) {
+    const state = decodeStateResponse(data);
+    if (state != null) {
+      // the device is evidently back, no need to wait for the next probe
+      if (this.breaker.recordSuccess()) {
+        this.stopProbing();
+      }
+      this.setReachable(true);
+      this.logs.trace('Received state update from %o', this.host);
+      this.emit('state', state);
+    }
+  }
+
+  disconnect() {
+    if (this.socket) {
       this.socket.end();
       this.socket.destroy();
+      this.socket = null;
+    }
+  }
+
+  /**
+   * Sends a command and resolves with the response, or null when there was none or the command failed.
+   * @param {FrameTypes} expectedResponse - resolve with the first frame of this type, any frame when omitted
+   */
+  async send(buffer: any, useChecksum = true, _timeout = 2000, expectedResponse: FrameTypes = null): Promise<Buffer | null> {
+    const result = await this.request(buffer, useChecksum, _timeout, expectedResponse);
+    return result?.response ?? null;
+  }
 
+  /**
+   * Sends a command, retrying with backoff as configured in the device's retry policy.
+   * Resolves null when every attempt failed, with { response } otherwise. Fails right away while the circuit is open.
+   */
+  async request(buffer: any, useChecksum = true, _timeout = 2000, expectedResponse: FrameTypes = null): Promise<{ response: Buffer }> {
+    if (!this.breaker.allowsRequests()) {
+      return null;
     }
 
+    const policy = this.retryPolicy;
+    for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+      const result = await this.attempt(buffer, useChecksum, _timeout, expectedResponse);
+      if (result != null) {
+        this.breaker.recordSuccess();
+        this.setReachable(true);
+        return result;
+      }
+      if (attempt < policy.attempts) {
+        await sleep(getBackoffDelay(policy, attempt));
+      }
+    }
+
+    this.setReachable(false);
+    if (this.breaker.recordFailure(policy.failureThreshold)) {
+      this.logs.warn('Device %o is not responding, pausing requests and checking on it every %o seconds.', this.host, policy.probeInterval);
+      this.scheduleProbe();
+    }
+    this.emit('failure', this.breaker.failures);
     return null;
   }
 
-  disconnect() {  
-    this.socket.end();
-    this.socket = null;
+  setReachable(reachable: boolean) {
+    if (this.reachable !== reachable) {
+      this.reachable = reachable;
+      this.emit('reachability', reachable);
+    }
   }
 
-  async send(buffer: any, useChecksum = true, _timeout = 2000) {
+  /**
+   * A single try through the queue. Queries fail without their response,
+   * other commands succeed once written, most devices don't answer them.
+   */
+  async attempt(buffer: any, useChecksum: boolean, _timeout: number, expectedResponse: FrameTypes): Promise<{ response: Buffer }> {
     return this.queue.add(async () => (
       this.connect(async () => {
         await this.write(buffer, useChecksum, _timeout);
-        return this.read(_timeout);
+        const response = await this.read(_timeout, expectedResponse);
+        if (response == null && expectedResponse != null) {
+          return null;
+        }
+        return { response };
       })
-    )); 
+    ));
+  }
+
+  /**
+   ** @scheduleProbe
+   * while the circuit is open, query the device once every probeInterval and close the circuit when it answers
+   */
+  scheduleProbe() {
+    clearTimeout(this.probeTimer);
+    this.probeTimer = setTimeout(async () => {
+      this.breaker.halfOpen();
+      const response = await this.attempt(Buffer.from(COMMAND_QUERY_STATE), true, 1000, FrameTypes.state);
+      if (response != null) {
+        this.breaker.recordSuccess();
+        this.setReachable(true);
+        this.logs.info('Device %o is responding again.', this.host);
+      } else {
+        this.breaker.recordFailure(this.retryPolicy.failureThreshold);
+        this.emit('failure', this.breaker.failures);
+        this.scheduleProbe();
+      }
+    }, this.retryPolicy.probeInterval * 1000);
+  }
+
+  stopProbing() {
+    clearTimeout(this.probeTimer);
   }
 
   async write(buffer: any, useChecksum = true, _timeout = 200) {
@@ -116,10 +412,10 @@ export class Transport {
 
       const chk = checksum(buffer);
       const payload = Buffer.concat([buffer, Buffer.from([chk])]);
-      sent = this.socket.write(payload, useChecksum, _timeout);
+      sent = this.socket.write(payload);
 
     } else {
-      sent = this.socket.write(buffer, useChecksum, _timeout);
+      sent = this.socket.write(buffer);
     }
  
     // wait for drain event which means all data has been sent
@@ -128,36 +424,85 @@ export class Transport {
     }
   }
 
-  async read(_timeout = 200) {
-    const data = await wait(this.socket, 'data', _timeout);
-    return data;
+  /**
+   * Resolves with the next complete, checksum verified frame, or null when none arrives in time.
+   */
+  async read(_timeout = 200, expectedResponse: FrameTypes = null): Promise<Buffer> {
+    const socket = this.socket;
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(readTimeout);
+        this.pendingRead = null;
+        socket.removeListener('close', onClose);
+        socket.removeListener('error', onError);
+      };
+
+      const onClose = () => {
+        cleanup();
+        reject(null);
+      };
+
+      const onError = (e) => {
+        cleanup();
+        reject(e);
+      };
+
+      const readTimeout = setTimeout(() => {
+        cleanup();
+        resolve(null);
+      }, _timeout);
+
+      this.pendingRead = {
+        expectedResponse,
+        resolve: (data: Buffer) => {
+          cleanup();
+          resolve(data);
+        },
+      };
+      socket.once('close', onClose);
+      socket.once('error', onError);
+    });
+  }
+
+  async getState(_timeout = 500): Promise<ILightState | null> {
+    return this.query(COMMAND_QUERY_STATE, FrameTypes.state, decodeStateResponse, _timeout);
+  }
+
+  async getTimers(_timeout = 1000): Promise<ITimer[] | null> {
+    return this.query(COMMAND_QUERY_TIMERS, FrameTypes.timers, decodeTimers, _timeout);
+  }
+
+  async setTimers(timers: ITimer[], _timeout = 1000) {
+    return this.send(Buffer.from(buildSetTimersCommand(timers)), true, _timeout);
+  }
+
+  async getClock(_timeout = 1000): Promise<Date | null> {
+    return this.query(COMMAND_QUERY_CLOCK, FrameTypes.clock, decodeClock, _timeout);
   }
 
-  async getState(_timeout = 500){
+  async setClock(date: Date, _timeout = 1000) {
+    return this.send(Buffer.from(buildSetClockCommand(date)), true, _timeout);
+  }
+
+  /**
+   ** @query
+   * send a query and decode the frame it is answered with, null when there is no answer or it is malformed
+   */
+  private async query<T>(command: Uint8Array, frameType: FrameTypes, decode: (data: Buffer) => T | null, _timeout: number): Promise<T | null> {
     try {
-      const data = await this.send(COMMAND_QUERY_STATE, true, _timeout);
+      const data = await this.send(command, true, _timeout, frameType);
       if (data == null) {
         return null;
       }
-      return {
-      
-        debugBuffer: data,
-        controllerHardwareVersion: data.readUInt8(1),
-        isOn: data.readUInt8(2) === 0x23,
-        RGB: {
-          red: data.readUInt8(6),
-          green: data.readUInt8(7),
-          blue: data.readUInt8(8),
-        },
-        whiteValues: {
-          warmWhite: data.readUInt8(9),
-          coldWhite: data.readUInt8(11),
-        },
-        controllerFirmwareVersion: data.readUInt8(10),
-  
-      };
+      const decoded = decode(data);
+      if (decoded == null) {
+        this.logs.debug('Discarding malformed %s response from %o: %o', frameType, this.host, data);
+      }
+      return decoded;
     } catch (error) {
-      this.logs.debug('Transport getState() error:', error);
+      this.logs.debug('Transport %s query error:', frameType, error);
+      return null;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,72 @@
+import type { PlatformConfig } from 'homebridge';
+import { ILightState, IProtocolProfile, IVerificationStats, IWriteExpectation, WhiteChannelLayouts } from './types';
+import { matchesUniqueId } from './utils';
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_TOLERANCE = 2;
+const DEFAULT_SETTLE_DELAY = 300;
+
+const MASK_COLOR = 0xF0;
+const MASK_WHITE = 0x0F;
+
+// statistics live as long as homebridge, keyed by unique id so they survive accessory re-creation
+const verificationStats: Map<string, IVerificationStats> = new Map();
+
+/**
+ ** @getWriteVerification
+ * the writeVerification settings from config, enabled, retries and settleDelay can be overridden per device
+ */
+export function getWriteVerification(config: PlatformConfig, uniqueId: string) {
+  const device = (config.writeVerification?.devices ?? []).find(entry => matchesUniqueId(entry?.uniqueId, uniqueId)) ?? {};
+  return {
+    enabled: device.enabled ?? config.writeVerification?.enabled ?? false,
+    retries: device.retries ?? config.writeVerification?.retries ?? DEFAULT_RETRIES,
+    tolerance: config.writeVerification?.tolerance ?? DEFAULT_TOLERANCE,
+    // milliseconds the device gets to apply a write before its state is read back
+    settleDelay: device.settleDelay ?? config.writeVerification?.settleDelay ?? DEFAULT_SETTLE_DELAY,
+  };
+}
+
+export function getVerificationStats(uniqueId: string): IVerificationStats {
+  let stats = verificationStats.get(uniqueId);
+  if (!stats) {
+    stats = { verifications: 0, mismatches: 0, retries: 0, reconciliations: 0 };
+    verificationStats.set(uniqueId, stats);
+  }
+  return stats;
+}
+
+/**
+ ** @findMismatches
+ * names of everything the device reports differently from what we sent, empty when the write was applied
+ * only the channels the color frame's mask switched on are compared, devices keep stale values in the others
+ */
+export function findMismatches(expected: IWriteExpectation, actual: ILightState, profile: IProtocolProfile, tolerance: number): string[] {
+  const mismatches: string[] = [];
+  if (actual.isOn !== expected.isOn) {
+    mismatches.push('power');
+  }
+
+  const { channels } = expected;
+  if (!channels || !expected.isOn) {
+    return mismatches;
+  }
+
+  const differs = (a: number, b: number) => Math.abs((a ?? 0) - (b ?? 0)) > tolerance;
+  if ((channels.mask & MASK_COLOR) !== 0) {
+    for (const channel of ['red', 'green', 'blue']) {
+      if (differs(channels[channel], actual.RGB?.[channel])) {
+        mismatches.push(channel);
+      }
+    }
+  }
+  if ((channels.mask & MASK_WHITE) !== 0) {
+    if (profile.whiteChannels !== WhiteChannelLayouts.none && differs(channels.warmWhite, actual.whiteValues?.warmWhite)) {
+      mismatches.push('warmWhite');
+    }
+    if (profile.whiteChannels === WhiteChannelLayouts.warmCold && differs(channels.coldWhite, actual.whiteValues?.coldWhite)) {
+      mismatches.push('coldWhite');
+    }
+  }
+  return mismatches;
+}
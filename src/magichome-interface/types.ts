@@ -39,6 +39,7 @@ export type IDeviceProps = IDeviceDiscoveredProps & IDeviceQueriedProps & {
     displayName: string;
     restartsSinceSeen: number;
     lastKnownState?: ILightState;
+    wifiDiagnostics?: IWifiDiagnostics;
 }
 
 export interface ILightState {
@@ -48,9 +49,103 @@ export interface ILightState {
     whiteValues:  IWhites;
     brightness?: number;
     colorTemperature?: number;
+    operatingMode?: OperatingModes;
+    presetPattern?: number;
+    effectSpeed?: number;
+    remoteOverride?: boolean;
     debugBuffer?: Buffer;
-    controllerHardwareVersion?: string;
-    controllerFirmwareVersion?: string;
+    controllerHardwareVersion?: number;
+    controllerFirmwareVersion?: number;
+}
+
+export enum OperatingModes {
+    color = 'color',
+    white = 'white',
+    colorAndWhite = 'colorAndWhite',
+    preset = 'preset',
+    custom = 'custom',
+    music = 'music',
+    unknown = 'unknown',
+}
+
+export interface IAnimation {
+    name: string;
+    brightnessInterrupt: boolean;
+    hueSaturationInterrupt: boolean;
+    presetPattern?: number;
+    customSequence?: ICustomSequence;
+}
+
+export interface ICustomSequence {
+    name: string;
+    steps: IColorRGB[];
+    transition: TransitionTypes;
+    speed: number;
+}
+
+export enum TransitionTypes {
+    gradual = 'gradual',
+    jump = 'jump',
+    strobe = 'strobe',
+}
+
+export interface ITimer {
+    isActive: boolean;
+    time: { hour: number; minute: number; second: number };
+    date?: { year: number; month: number; day: number };
+    repeatDays: Weekdays[];
+    action: TimerActions;
+    color?: IColorRGB;
+    warmWhite?: number;
+    presetPattern?: number;
+    effectSpeed?: number;
+}
+
+export enum TimerActions {
+    on = 'on',
+    off = 'off',
+    color = 'color',
+    preset = 'preset',
+}
+
+export enum Weekdays {
+    monday = 'monday',
+    tuesday = 'tuesday',
+    wednesday = 'wednesday',
+    thursday = 'thursday',
+    friday = 'friday',
+    saturday = 'saturday',
+    sunday = 'sunday',
+}
+
+export interface IProtocolProfile {
+    colorFrameLength: 7 | 8;
+    powerOnBeforeColor: boolean;
+    useChecksum: boolean;
+    whiteChannels: WhiteChannelLayouts;
+}
+
+export interface IProtocolQuirk {
+    description: string;
+    hardwareVersions?: number[];
+    firmwareVersions?: number[];
+    modelNumbers?: string[];
+    profile: Partial<IProtocolProfile>;
+}
+
+export enum WhiteChannelLayouts {
+    none = 'none',
+    warm = 'warm',
+    warmCold = 'warmCold',
+}
+
+export interface IColorChannels {
+    red: number;
+    green: number;
+    blue: number;
+    warmWhite: number;
+    coldWhite: number;
+    mask: number;
 }
 
 export interface IColorRGB {
@@ -76,4 +171,70 @@ export interface MagicHomeAccessory extends PlatformAccessory{
       device: IDeviceProps;
       pendingRegistration?: boolean;
     }
-  } 
\ No newline at end of file
+  } 
+export enum FrameTypes {
+    state = 'state',
+    timers = 'timers',
+    clock = 'clock',
+    power = 'power',
+    acknowledgement = 'acknowledgement',
+}
+
+export interface IFrame {
+    type: FrameTypes;
+    data: Buffer;
+}
+
+export interface IRetryPolicy {
+    attempts: number;
+    initialDelay: number;
+    maxDelay: number;
+    connectTimeout: number;
+    failureThreshold: number;
+    probeInterval: number;
+}
+
+export enum CircuitStates {
+    closed = 'closed',
+    open = 'open',
+    halfOpen = 'halfOpen',
+}
+
+export interface IPendingCommands {
+    power: boolean;
+    color: boolean;
+    effect: boolean;
+}
+
+export interface IWriteExpectation {
+    isOn: boolean;
+    channels?: IColorChannels;
+}
+
+export interface IVerificationStats {
+    verifications: number;
+    mismatches: number;
+    retries: number;
+    reconciliations: number;
+    lastMismatch?: string[];
+}
+
+export interface INetworkInterface {
+    name: string;
+    address: string;
+    cidr: string;
+    broadcast: string;
+}
+
+export interface IWifiDiagnostics {
+    moduleFirmware: string | null;
+    ssid: string | null;
+    signalQuality: number | null; // percent
+    macAddress: string | null;
+}
+
+export interface IDeviceInterrogation {
+    initialState: ILightState | null;
+    wifiDiagnostics: IWifiDiagnostics | null;
+    duration: number; // milliseconds
+}
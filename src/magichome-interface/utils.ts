@@ -152,17 +152,37 @@ export function loadJson<T>(file: string, replacement: T): T {
   return parseJson<T>(readFileSync(file).toString(), replacement);
 }
 
-//Unused
+/**
+ * Unique ids are the device's MAC address, users copy them with colons or in lower case
+ */
+export function normalizeUniqueId(uniqueId: string): string {
+  return uniqueId.replace(/[^0-9a-fA-F]/g, '').toUpperCase();
+}
+
+/**
+ * Whether a unique id from config names the device, however it was written
+ */
+export function matchesUniqueId(configured: unknown, uniqueId: string): boolean {
+  return typeof configured === 'string' && typeof uniqueId === 'string' && normalizeUniqueId(configured) === normalizeUniqueId(uniqueId);
+}
+
+//=================================================
+// Start Effect Speed //
 
-/*
-export function delayToSpeed(delay: never) {
+//the controller reports and accepts effect speed as a delay between 1 (fastest) and 31 (slowest)
+export function delayToSpeed(delay: number) {
   let clamped = clamp(delay, 1, 31);
   clamped -= 1; // bring into interval [0, 30]
-  return 100 - (clamped / 30) * 100;
+  return Math.round(100 - (clamped / 30) * 100);
 }
 
-export function speedToDelay(speed: never) {
+export function speedToDelay(speed: number) {
   const clamped = clamp(speed, 0, 100);
-  return 30 - (clamped / 100) * 30 + 1;
+  return Math.round(30 - (clamped / 100) * 30 + 1);
+}
+//=================================================
+// End Effect Speed //
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
-*/
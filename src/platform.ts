@@ -2,7 +2,9 @@ import { APIEvent } from 'homebridge';
 import type { API, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig } from 'homebridge';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
 import { join } from 'path';
-import { loadJson } from './magichome-interface/utils';
+import Queue from 'promise-queue';
+import { promises as dns } from 'dns';
+import { loadJson, matchesUniqueId, normalizeUniqueId } from './magichome-interface/utils';
 import { Switch } from './accessories/Switch';
 import { DimmerStrip } from './accessories/DimmerStrip';
 import { RGBStrip } from './accessories/RGBStrip';
@@ -14,15 +16,23 @@ import { RGBWWStrip } from './accessories/RGBWWStrip';
 import { CCTStrip } from './accessories/CCTStrip';
 import { cloneDeep } from 'lodash';
 import { Logs } from './logs';
-import { Discover } from './magichome-interface/Discover';
-import { Transport } from './magichome-interface/Transport';
+import { StatePoller } from './poller';
+import { RediscoveryScheduler } from './rediscovery';
+import { Discover, closeDiscover, getDiscover } from './magichome-interface/Discover';
+import { ATClient } from './magichome-interface/ATClient';
+import { getTransport, disconnectAll } from './magichome-interface/Transport';
 import { HomebridgeMagichomeDynamicPlatformAccessory } from './platformAccessory';
-import { IDeviceProps, IDeviceDiscoveredProps, IDeviceQueriedProps, ILightParameters } from './magichome-interface/types';
+import { IDeviceProps, IDeviceDiscoveredProps, IDeviceInterrogation, IDeviceQueriedProps, ILightParameters, ILightState, IWifiDiagnostics } from './magichome-interface/types';
 import { getPrettyName as getUniqueIdName, lightTypesMap} from './magichome-interface/LightMap';
+import { getConfiguredTimers, timersAreEqual, MAX_TIMERS } from './magichome-interface/Timers';
 import { MagicHomeAccessory, ControllerTypes } from './magichome-interface/types';
 //const NEW_COMMAND_QUERY_STATE: Uint8Array = Uint8Array.from([0x81, 0x8a, 0x8b]);
 //const LEGACY_COMMAND_QUERY_STATE: Uint8Array = Uint8Array.from([0xEF, 0x01, 0x77]);
 
+const CLOCK_SYNC_INTERVAL = 3600000; // check device clocks at most once an hour
+const DEFAULT_CLOCK_TOLERANCE = 60; // seconds
+const DEFAULT_MAX_CONCURRENT_QUERIES = 8;
+
 const accessoryType = {
   Switch,
   DimmerStrip,
@@ -46,9 +56,17 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
   // this is used to track restored cached accessories
   public readonly accessories: MagicHomeAccessory[] = [];
   public count = 1;
-  private periodicDiscovery: NodeJS.Timeout | null = null;
+  private discoveryInProgress = false;
+  private lastClockSync = 0;
+  // the handler of every accessory set up this session, by unique id
+  private readonly accessoryHandlers: Map<string, HomebridgeMagichomeDynamicPlatformAccessory> = new Map();
+  // controller types configured for static devices, by unique id
+  private readonly staticControllerTypes: Map<string, string> = new Map();
 
   private logs: Logs;
+  public readonly statePoller: StatePoller;
+  private readonly discover: Discover;
+  private readonly rediscovery: RediscoveryScheduler;
 
 
   constructor(
@@ -61,6 +79,10 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
     } else {
       this.logs = new Logs(hbLogger);
     }
+    this.statePoller = new StatePoller(this.logs, this.config);
+    this.discover = getDiscover(this.logs, this.config);
+    this.discover.on('device', (device: IDeviceDiscoveredProps) => this.onDeviceDiscovered(device));
+    this.rediscovery = new RediscoveryScheduler(this.logs, this.config, () => this.discoverDevices(false));
 
     //this.logs = getLogger();
     this.logs.warn('Finished initializing homebridge-magichome-dynamic-platform %o', loadJson<any>(join(__dirname, '../package.json'), {}).version);
@@ -73,10 +95,15 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
     this.api.on(APIEvent.DID_FINISH_LAUNCHING, () => {
       this.logs.debug('Executed didFinishLaunching callback');
       this.count = 1;
-      // run the method to discover / register your devices as accessories
-      this.discoverDevices(true);
-      // Periodic scan for devices
-      this.periodicDiscovery = setInterval( () => this.discoverDevices(false), 30000);
+      // discover / register your devices as accessories now, then keep scanning for new and moved devices
+      this.rediscovery.start();
+    });
+
+    this.api.on(APIEvent.SHUTDOWN, () => {
+      this.rediscovery.stop();
+      this.statePoller.stop();
+      closeDiscover();
+      disconnectAll();
     });
   }
 
@@ -101,30 +128,58 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
    * Method Two: Cached devices that were seen after scanning the network and are added while checking for ip discrepancies
    * Method Three: Cached devices that were not seen after scanning the network but are still added with a warning to the user
    */
-  async discoverDevices(dgb: boolean | null) {
+  async discoverDevices(dgb: boolean | null): Promise<boolean> {
+    // a slow pass (unreachable devices) must not overlap with the next one
+    if (this.discoveryInProgress) {
+      this.logs.debug('Previous discovery pass is still running, skipping this one.');
+      return false;
+    }
+    this.discoveryInProgress = true;
+    try {
+      return await this.runDiscovery(dgb);
+    } finally {
+      this.discoveryInProgress = false;
+    }
+  }
+
+  /**
+   * Resolves whether every known accessory was seen, which lets the rediscovery scheduler slow down.
+   */
+  async runDiscovery(dgb: boolean | null): Promise<boolean> {
     const { isValidDeviceModel } = HomebridgeMagichomeDynamicPlatform;
     const pendingUpdate = new Set();
     const recentlyRegisteredDevices  = new Set();
+    const prunedAccessories: MagicHomeAccessory[] = [];
 
     let registeredDevices = 0, newDevices = 0, unseenDevices = 0, scans = 0;
-    let discover = new Discover(this.logs, this.config);
-    let devicesDiscovered: IDeviceDiscoveredProps[] = await discover.scan(2000);
+    let devicesDiscovered: IDeviceDiscoveredProps[] = await this.discover.scan(2000);
+    const staticDevices = this.config.deviceManagement?.staticDevices ?? [];
 
-    while(devicesDiscovered.length === 0 && scans <5){
+    // a setup with only static devices would otherwise rescan for nothing every time
+    while(devicesDiscovered.length === 0 && staticDevices.length === 0 && scans <5){
       this.logs.debug('( Scan: %o ) Discovered zero devices... rescanning...', scans + 1);
-      devicesDiscovered = await discover.scan(2000);
+      devicesDiscovered = await this.discover.scan(2000);
       scans++;
     }
+    // states read from static devices which only answered a state query, so they aren't queried twice
+    const probedStates: Map<string, ILightState> = new Map();
+    devicesDiscovered.push(...await this.discoverStaticDevices(devicesDiscovered, probedStates));
 
-    discover = null;
     if (devicesDiscovered.length === 0){
       this.logs.debug('\nDiscovered zero devices!\n');
     } else {
       this.logs.debug('\nDiscovered %o devices.\n', devicesDiscovered.length);
     }
 
+    // query every device which is going to be registered up front and side by side, so an unresponsive one
+    // doesn't hold up the rest, then register them one after the other with the results
+    const interrogationStarted = Date.now();
+    const interrogations = await this.interrogateDevices(devicesDiscovered.filter(device => !this.isRegisteredAndUnchanged(device)), probedStates);
+    const interrogationTime = Date.now() - interrogationStarted;
+
     // loop over the discovered devices and register each one if it has not already been registered
     for ( const deviceDiscovered of devicesDiscovered) {
+      const interrogation = interrogations.get(deviceDiscovered.uniqueId);
       let existingAccessory: MagicHomeAccessory = null;
       try {
         // generate a unique id for the accessory this should be generated from
@@ -134,17 +189,21 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
         existingAccessory = this.accessories.find(accessory => accessory.UUID === generatedUUID);
 
         if (!existingAccessory) {
-          if(!this.createNewAccessory(deviceDiscovered, generatedUUID)) {
+          if(!await this.createNewAccessory(deviceDiscovered, generatedUUID, interrogation)) {
             continue;
           }
           recentlyRegisteredDevices.add(deviceDiscovered.uniqueId);
           registeredDevices++;
           newDevices++;
 
+        } else if (!interrogation) {
+          // registered and unchanged, nothing to query
+          existingAccessory.context.device.restartsSinceSeen = 0;
+
         } else {
           // This deviceDiscovered already exist in cache!
-          const initialState = await this.getInitialState (deviceDiscovered.ipAddress, 10000);
-          const deviceQueryData:IDeviceQueriedProps = await this.determineController(deviceDiscovered);
+          const { initialState } = interrogation;
+          const deviceQueryData:IDeviceQueriedProps = await this.determineController(deviceDiscovered, initialState);
 
           // Check if cached device complies to the device model,
           if(!isValidDeviceModel(existingAccessory.context.device, null)) {
@@ -181,7 +240,7 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
 
           //Override controllerLogicType if in config
           const newHardwareVersion = deviceQueryData.controllerHardwareVersion;
-          const oldHardwareVersion =  existingAccessory.controllerHardwareVersion
+          const oldHardwareVersion = existingAccessory.context.device.controllerHardwareVersion;
           if(newHardwareVersion != oldHardwareVersion){
             const oldName = existingAccessory.context.displayName ||
                             existingAccessory.context.device?.lightParameters?.convenientName ||
@@ -193,7 +252,7 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
           }
 
 
-          if(!this.registerExistingAccessory(deviceDiscovered, existingAccessory)){
+          if(!await this.registerExistingAccessory(deviceDiscovered, existingAccessory, interrogation)){
             continue;
           }
 
@@ -224,13 +283,14 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
         if(!isValidDeviceModel(accessory.context.device, null)) {
           // only offline, cached devices, old data model, should trigger here.
           const { uniqueId } = accessory.context.device;
-          this.logs.debug(`Device "${uniqueId}" was not seen during discovery. Ensure it can be controlled in the MagicHome app. Rescan in 30 seconds...`);
+          this.logs.debug(`Device "${uniqueId}" was not seen during discovery. Ensure it can be controlled in the MagicHome app. It is looked for again with the next scan.`);
           pendingUpdate.add(uniqueId);
           continue;
         }
 
         if(accessory.context.device?.displayName && accessory.context.device.displayName.toString().toLowerCase().includes('delete')){
           this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+          prunedAccessories.push(accessory);
           this.logs.warn('Successfully pruned accessory: ', accessory.context.device.displayName,
             'due to being marked for deletion\n');
           continue;
@@ -240,6 +300,7 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
         } else if(this.config.pruning.pruneMissingCachedAccessories || this.config.pruning.pruneAllAccessoriesNextRestart){
           if(accessory.context.device.restartsSinceSeen >= this.config.pruning.restartsBeforeMissingAccessoriesPruned || this.config.pruning.pruneAllAccessoriesNextRestart){
             this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+            prunedAccessories.push(accessory);
             this.logs.warn('Successfully pruned accessory:', accessory.context.device.displayName,
               'which had not being seen for (',accessory.context.device.restartsSinceSeen,') restart(s).\n');
             continue;
@@ -254,6 +315,7 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
               accessory.context.device.displayName, accessory.context.device.uniqueId);
             try{
               this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+              prunedAccessories.push(accessory);
             } catch(err){
               this.logs.debug('Accessory: %o count not be pruned. Likely it had never been registered.\n',
                 accessory.context.device.displayName, accessory.context.device.uniqueId);
@@ -261,12 +323,20 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
             continue;
           }
 
+          // set up by an earlier pass, it keeps its poller, listeners and relocation state
+          if (this.accessoryHandlers.has(accessory.context.device.uniqueId)) {
+            registeredDevices++;
+            unseenDevices++;
+            continue;
+          }
+
           this.logs.debug(`Warning! Continuing to register cached accessory "${accessory.context.device.uniqueId}" despite not being seen for ${accessory.context.device.restartsSinceSeen} restarts.`);
 
           // create the accessory handler
           let lightAccessory: HomebridgeMagichomeDynamicPlatformAccessory = null;
           try {
             lightAccessory = new accessoryType[accessory.context.device.lightParameters.controllerLogicType](this, accessory, this.config);
+            this.accessoryHandlers.set(accessory.context.device.uniqueId, lightAccessory);
           } catch (error) {
             this.logs.error('[1] The controllerLogicType does not exist in accessoryType list. Did you migrate this? controllerLogicType=', accessory.context.device?.lightParameters?.controllerLogicType);
             this.logs.error('device object: ', accessory.context.device);
@@ -275,6 +345,8 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
 
           // udpate the accessory to platform
           this.api.updatePlatformAccessories([accessory]);
+          // registered now, once seen it is left alone or moved by onDeviceDiscovered() like any other
+          accessory.context.pendingRegistration = false;
           registeredDevices++;
           unseenDevices++;
 
@@ -302,10 +374,136 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
       const pendingStr = pending > 0 ? ` Pending update: ${pending} devices` : '';
       this.logs.debug(`Discovery summary:  Found ${found} devices.${pendingStr}`);
     }
+    if (interrogations.size > 0) {
+      const timings = Array.from(interrogations)
+        .sort(([, a], [, b]) => b.duration - a.duration)
+        .map(([uniqueId, { initialState, duration }]) => `\n${uniqueId}: ${duration} ms${initialState ? '' : ' (no answer)'}`);
+      this.logs.debug(`Discovery timing: queried ${interrogations.size} device(s) in ${interrogationTime} ms, slowest first:${timings.join('')}`);
+    }
 
     this.count = 1; // reset the device logging counter
+
+    if (Date.now() - this.lastClockSync >= CLOCK_SYNC_INTERVAL) {
+      this.lastClockSync = Date.now();
+      await this.syncClocks();
+    }
+
+    for (const accessory of prunedAccessories) {
+      this.accessories.splice(this.accessories.indexOf(accessory), 1);
+    }
+    const seen = new Set(devicesDiscovered.map(device => device.uniqueId));
+    return this.accessories.every(accessory => seen.has(accessory.context.device?.uniqueId));
   }//discoveredDevices
 
+  isRegisteredAndUnchanged(device: IDeviceDiscoveredProps): boolean {
+    const generatedUUID = this.api.hap.uuid.generate(device.uniqueId);
+    const accessory = this.accessories.find(existing => existing.UUID === generatedUUID);
+    return accessory != null && !accessory.context.pendingRegistration
+      && accessory.context.device.cachedIPAddress === device.ipAddress
+      && HomebridgeMagichomeDynamicPlatform.isValidDeviceModel(accessory.context.device, null);
+  }
+
+  /**
+   ** @interrogateDevices
+   * a single state query per device, plus the Wi-Fi diagnostics of those which answered,
+   * with at most discovery.maxConcurrentQueries devices queried at the same time
+   * devices with a state in probedStates were already queried during discovery and reuse it
+   */
+  async interrogateDevices(devices: IDeviceDiscoveredProps[], probedStates: Map<string, ILightState> = new Map()): Promise<Map<string, IDeviceInterrogation>> {
+    const interrogations: Map<string, IDeviceInterrogation> = new Map();
+    const queue = this.createQueryQueue();
+
+    await Promise.all(devices.map(device => queue.add(async () => {
+      const started = Date.now();
+      const initialState = probedStates.get(device.uniqueId) ?? await this.getInitialState(device.ipAddress, 10000, device.uniqueId) ?? null;
+      const wifiDiagnostics = initialState ? await this.queryWifiDiagnostics(device.ipAddress) : null;
+      interrogations.set(device.uniqueId, { initialState, wifiDiagnostics, duration: Date.now() - started });
+    })));
+
+    return interrogations;
+  }
+
+  // at most discovery.maxConcurrentQueries devices queried at the same time
+  createQueryQueue() {
+    return new Queue(Math.max(1, this.config.discovery?.maxConcurrentQueries ?? DEFAULT_MAX_CONCURRENT_QUERIES), Infinity);
+  }
+
+  /**
+   ** @locateDevice
+   * targeted rediscovery for an accessory whose device stopped answering, usually because DHCP gave it a new address
+   * looked for by its unique id with a broadcast, then at the static device hosts which may belong to it
+   * while it can't be found, scans go back to the shortest interval
+   */
+  async locateDevice(uniqueId: string): Promise<IDeviceDiscoveredProps | null> {
+    let device = await this.discover.findDevice(uniqueId, 2000);
+
+    const staticHosts = (this.config.deviceManagement?.staticDevices ?? [])
+      .filter(entry => typeof entry?.host === 'string' && (!entry.uniqueId || normalizeUniqueId(entry.uniqueId) === uniqueId));
+    for (const { host } of staticHosts) {
+      if (device) {
+        break;
+      }
+      const answer = await this.discover.queryHost(host.trim(), 2000);
+      device = answer?.uniqueId === uniqueId ? answer : null;
+    }
+
+    if (!device) {
+      this.rediscovery.speedUp(`device ${uniqueId} is not responding`);
+    }
+    return device;
+  }
+
+  /**
+   ** @onDeviceDiscovered
+   * every discovery reply, from scans and unicast queries alike
+   * a registered device answering from a new address is moved there right away, its accessory stays as it is
+   */
+  onDeviceDiscovered(device: IDeviceDiscoveredProps) {
+    const accessory = this.accessories.find(existing => existing.context.device?.uniqueId === device.uniqueId);
+    if (!accessory || accessory.context.pendingRegistration) {
+      return;
+    }
+    if (accessory.context.device.cachedIPAddress !== device.ipAddress) {
+      this.accessoryHandlers.get(device.uniqueId)?.relocate(device.ipAddress);
+    }
+  }
+
+  /**
+   * Controllers lose their clock after a power cut and drift over time, which throws off their timers.
+   * Compare each seen device's clock to the host and set it when it is off by more than the configured tolerance.
+   */
+  async syncClocks() {
+    if (this.config.clockSync?.enabled === false) {
+      return;
+    }
+    const tolerance = (this.config.clockSync?.tolerance ?? DEFAULT_CLOCK_TOLERANCE) * 1000;
+
+    for (const accessory of this.accessories) {
+      const { uniqueId, cachedIPAddress, displayName, restartsSinceSeen } = accessory.context.device;
+      if (restartsSinceSeen > 0) {
+        continue;
+      }
+
+      try {
+        const transport = getTransport(cachedIPAddress, this.config, uniqueId);
+        const deviceClock = await transport.getClock(2000);
+        if (deviceClock == null) {
+          this.logs.debug('Unable to read the clock of device %o.', displayName);
+          continue;
+        }
+
+        const drift = deviceClock.getTime() - Date.now();
+        if (Math.abs(drift) <= tolerance) {
+          continue;
+        }
+        await transport.setClock(new Date());
+        this.logs.info('Corrected the clock of device %o, which was off by %o seconds.', displayName, Math.round(drift / 1000));
+      } catch (error) {
+        this.logs.error('Unable to synchronize the clock of device %o: %o', displayName, error);
+      }
+    }
+  }
+
 
   isAllowed(uniqueId):boolean{
 
@@ -315,9 +513,10 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
 
       if(blacklistedUniqueIDs !== undefined
         && this.config.deviceManagement.blacklistOrWhitelist !== undefined){
-        if (((blacklistedUniqueIDs).includes(uniqueId)
+        const isListed = blacklistedUniqueIDs.some(listedUniqueId => matchesUniqueId(listedUniqueId, uniqueId));
+        if ((isListed
         && (this.config.deviceManagement.blacklistOrWhitelist).includes('blacklist'))
-         || (!(blacklistedUniqueIDs).includes(uniqueId))
+         || (!isListed)
          && (this.config.deviceManagement.blacklistOrWhitelist).includes('whitelist')){
           isAllowed = false;
         }
@@ -329,52 +528,124 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
     return isAllowed;
   }
 
-  async getInitialState(ipAddress, _timeout = 500){
+  /**
+   ** @discoverStaticDevices
+   * devices configured by IP or hostname, asked directly by unicast discovery
+   * when that is blocked too, a device whose unique id is configured is added after answering a state query,
+   * which is left in probedStates for interrogateDevices()
+   * hosts are probed with at most discovery.maxConcurrentQueries at the same time,
+   * devices already found by the broadcast scan or an earlier entry are skipped
+   */
+  async discoverStaticDevices(devicesDiscovered: IDeviceDiscoveredProps[], probedStates: Map<string, ILightState>): Promise<IDeviceDiscoveredProps[]> {
+    const staticDevicesDiscovered: IDeviceDiscoveredProps[] = [];
+    const entries = this.config.deviceManagement?.staticDevices ?? [];
+    const queue = this.createQueryQueue();
+    const probed: (IDeviceDiscoveredProps | null)[] = await Promise.all(entries.map(entry => queue.add(() => this.probeStaticDevice(entry, probedStates))));
+
+    probed.forEach((device, index) => {
+      if (!device) {
+        return;
+      }
+      if (entries[index].controllerType) {
+        this.staticControllerTypes.set(device.uniqueId, entries[index].controllerType);
+      }
+      if (![...devicesDiscovered, ...staticDevicesDiscovered].some(discovered => discovered.uniqueId === device.uniqueId)) {
+        this.logs.debug('Discovered static device %o at %o', device.uniqueId, device.ipAddress);
+        staticDevicesDiscovered.push(device);
+      }
+    });
+
+    return staticDevicesDiscovered;
+  }
+
+  /**
+   ** @probeStaticDevice
+   * the device at a static host, null when it can't be reached or isn't the configured one
+   */
+  async probeStaticDevice(entry, probedStates: Map<string, ILightState>): Promise<IDeviceDiscoveredProps | null> {
+    const { host } = entry || {};
+    if (typeof host !== 'string' || host.trim().length === 0) {
+      this.logs.warn('Ignoring static device without a host: %o', entry);
+      return null;
+    }
+    const expectedUniqueId = typeof entry.uniqueId === 'string' && entry.uniqueId.length > 0 ? normalizeUniqueId(entry.uniqueId) : null;
 
-    const transport = new Transport(ipAddress, this.config);
-    try{
-      let scans = 0, data;
+    const device = await this.discover.queryHost(host.trim(), 2000);
+    if (device && expectedUniqueId && device.uniqueId !== expectedUniqueId) {
+      this.logs.warn('Static device %o answered with Unique ID %o instead of the configured %o. Skipping it.', host, device.uniqueId, expectedUniqueId);
+      return null;
+    }
+    if (device) {
+      return device;
+    }
 
-      while(data == null && scans < 5){
+    if (!expectedUniqueId) {
+      this.logs.debug('Static device %o did not answer discovery. Configure its Unique ID to add it by a state query instead.', host);
+      return null;
+    }
+    const ipAddress = await this.resolveHost(host.trim());
+    const initialState = ipAddress == null ? null : await this.getInitialState(ipAddress, 2000, expectedUniqueId);
+    if (initialState == null) {
+      this.logs.debug('Static device %o (%o) is unreachable.', host, expectedUniqueId);
+      return null;
+    }
+    probedStates.set(expectedUniqueId, initialState);
+    return { ipAddress, uniqueId: expectedUniqueId, modelNumber: 'Unknown' };
+  }
 
-        data = await transport.getState(_timeout);
-        scans++;
-      }
+  async resolveHost(host: string): Promise<string | null> {
+    try {
+      const { address } = await dns.lookup(host, { family: 4 });
+      return address;
+    } catch (error) {
+      this.logs.debug('Unable to resolve %o: %o', host, error.message);
+      return null;
+    }
+  }
 
-      return data;
+  async getInitialState(ipAddress, _timeout = 500, uniqueId: string = null){
+
+    // retried by the transport according to the device's retry policy
+    const transport = getTransport(ipAddress, this.config, uniqueId);
+    try{
+      return await transport.getState(_timeout);
 
     } catch (error) {
       this.logs.debug(error);
     }
   }
 
-  async determineController(discoveredDevice):Promise<IDeviceQueriedProps | null> {
+  /**
+   * @param initialState - the device's state from interrogateDevices(), null when it didn't answer
+   */
+  async determineController(discoveredDevice, initialState: ILightState | null):Promise<IDeviceQueriedProps | null> {
     const { ipAddress } = discoveredDevice || {};
     if(typeof ipAddress !== 'string' ){
       this.logs.error('Cannot determine controller because invalid IP address. Device:', discoveredDevice);
       return null;
     }
-    const initialState = await this.getInitialState (ipAddress, 10000);
     if( initialState == undefined){
       this.logs.debug('Cannot determine controller. Device unreacheable.', discoveredDevice);
       return null;
     }
 
     let lightParameters: ILightParameters;
-    const controllerHardwareVersion = initialState.controllerHardwareVersion;
+    let controllerHardwareVersion = initialState.controllerHardwareVersion;
     const controllerFirmwareVersion = initialState.controllerFirmwareVersion;
 
     //Override controllerLogicType if in config
-    const overridenHardwareVersion = null;
-    if( this.config.deviceManagement.overrideControllerType ) {
-       const overridenControllerTypeObj = this.config.deviceManagement.overrideControllerType.find( entry => {
-        return entry.uniqueId == discoveredDevice.uniqueId;
-      })
+    let overridenHardwareVersion = null;
+    const staticControllerType = this.staticControllerTypes.get(discoveredDevice.uniqueId);
+    const overridenControllerTypeObj = this.config.deviceManagement.overrideControllerType?.find( entry => {
+      return matchesUniqueId(entry?.uniqueId, discoveredDevice.uniqueId);
+    }) ?? (staticControllerType ? { uniqueId: discoveredDevice.uniqueId, controllerType: staticControllerType } : undefined);
+    if( overridenControllerTypeObj ) {
       overridenHardwareVersion = getHardwareVersion(overridenControllerTypeObj);
       if(lightTypesMap.has(overridenHardwareVersion)){
         controllerHardwareVersion = overridenHardwareVersion;
       } else {
-        this.logs.warn('Overriden controller type: %o for device with id: %o is invalid' , overridenHardwareVersion.toString(16), discoveredDevice.uniqueId);
+        this.logs.warn('Overriden controller type: %o for device with id: %o is invalid' , overridenControllerTypeObj.controllerType, discoveredDevice.uniqueId);
+        overridenHardwareVersion = null;
       }
     }
     if(!overridenHardwareVersion){
@@ -416,10 +687,10 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
  * @param deviceDiscovered
  * @param generatedUUID
  */
-  async createNewAccessory(deviceDiscovered:IDeviceDiscoveredProps, generatedUUID):Promise<boolean>{
+  async createNewAccessory(deviceDiscovered:IDeviceDiscoveredProps, generatedUUID, interrogation: IDeviceInterrogation):Promise<boolean>{
     const unsupportedModels: string[] = [ '000-0000']; //AK001-ZJ210 is suported...
 
-    const deviceQueryData:IDeviceQueriedProps = await this.determineController(deviceDiscovered);
+    const deviceQueryData:IDeviceQueriedProps = await this.determineController(deviceDiscovered, interrogation.initialState);
 
     if(deviceQueryData == null){
       if( unsupportedModels.includes(deviceDiscovered.modelNumber)){
@@ -448,31 +719,23 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
     const deviceData: IDeviceProps = Object.assign({UUID: generatedUUID, cachedIPAddress: deviceDiscovered.ipAddress, restartsSinceSeen: 0, displayName: deviceQueryData.lightParameters.convenientName}, deviceDiscovered, deviceQueryData);
     accessory.context.device = deviceData;
 
-
+    this.updateWifiDiagnostics(accessory, interrogation.wifiDiagnostics);
     this.printDeviceInfo('Registering new accessory...!', accessory);
     // link the accessory to your platform
     this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
 
-    //Override controllerLogicType if defined in config
-    const overridenHardwareVersion = null;
-    if( this.config.deviceManagement.overrideControllerType ) {
-       const overridenControllerTypeObj = this.config.deviceManagement.overrideControllerType.find( entry => {
-        return entry.uniqueId == discoveredDevice.uniqueId;
-      })
-      overridenHardwareVersion = getHardwareVersion(overridenControllerTypeObj);
-    }
-
-
     // create the accessory handler
     let lightAccessory: HomebridgeMagichomeDynamicPlatformAccessory = null;
     try {
       lightAccessory = new accessoryType[accessory.context.device.lightParameters.controllerLogicType](this, accessory, this.config);
+      this.accessoryHandlers.set(accessory.context.device.uniqueId, lightAccessory);
     } catch (error) {
       this.logs.error('[2] The controllerLogicType does not exist in accessoryType list. controllerLogicType=', accessory.context.device?.lightParameters?.controllerLogicType);
       this.logs.error('device object: ', accessory.context.device);
       return false;
     }
     this.accessories.push(accessory);
+    this.syncTimers(accessory);
 
     return true;
   }
@@ -483,7 +746,7 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
  * @param deviceDiscovered
  * @param existingAccessory
  */
-  registerExistingAccessory(deviceDiscovered, existingAccessory:MagicHomeAccessory):boolean{
+  async registerExistingAccessory(deviceDiscovered, existingAccessory:MagicHomeAccessory, interrogation: IDeviceInterrogation):Promise<boolean>{
 
     if(!this.isAllowed(existingAccessory.context.device.uniqueId)){
       this.logs.warn('Warning! Accessory: %o will be pruned as its Unique ID: %o is blacklisted or is not whitelisted.\n',
@@ -505,6 +768,14 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
       return false;
     }
 
+    // already set up this session, the handler moves to the new address instead of a second one being built
+    const handler = this.accessoryHandlers.get(existingAccessory.context.device.uniqueId);
+    if (handler) {
+      handler.relocate(deviceDiscovered.ipAddress);
+      existingAccessory.context.pendingRegistration = false;
+      return false;
+    }
+
     if(!ipHasNotChanged){
       this.logs.warn('Ip address discrepancy found for accessory: %o\n Expected ip address: %o\n Discovered ip address: %o' ,
         existingAccessory.context.device.displayName,  existingAccessory.context.device.cachedIPAddress, deviceDiscovered.ipAddress);
@@ -515,6 +786,7 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
       this.logs.warn('Ip address successfully reassigned to: %o\n ', existingAccessory.context.device.cachedIPAddress);
     }
 
+    this.updateWifiDiagnostics(existingAccessory, interrogation.wifiDiagnostics);
     this.printDeviceInfo('Registering existing accessory...', existingAccessory);
 
     // create the accessory handler
@@ -526,6 +798,7 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
         return false;
       }
       lightAccessory = new accessoryType[existingAccessory.context.device.lightParameters.controllerLogicType](this, existingAccessory, this.config);
+      this.accessoryHandlers.set(existingAccessory.context.device.uniqueId, lightAccessory);
     } catch (error) {
       this.logs.error('[registerExistingAccessory] The controllerLogicType does not exist in accessoryType list. controllerLogicType=', existingAccessory.context.device?.lightParameters?.controllerLogicType);
       this.logs.error('[registerExistingAccessory] device object: ', existingAccessory.context.device);
@@ -537,12 +810,76 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
     // udpate the accessory to your platform
     this.api.updatePlatformAccessories([existingAccessory]);
     existingAccessory.context.pendingRegistration = false;
+    this.syncTimers(existingAccessory);
     return true;
   }
 
+  /**
+   * Write the timers from config to the device so they keep running while homebridge is down.
+   * Devices without configured timers are left alone, so timers set in the MagicHome app survive.
+   */
+  async syncTimers(accessory: MagicHomeAccessory) {
+    const { uniqueId, cachedIPAddress, displayName } = accessory.context.device;
+    const timers = getConfiguredTimers(this.config.timers, uniqueId);
+    if (timers.length === 0) {
+      return;
+    }
+    if (timers.length > MAX_TIMERS) {
+      this.logs.warn('Device %o supports %o timers, ignoring the last %o configured timer(s).', displayName, MAX_TIMERS, timers.length - MAX_TIMERS);
+    }
+
+    try {
+      const transport = getTransport(cachedIPAddress, this.config, uniqueId);
+      const deviceTimers = await transport.getTimers(2000);
+      if (deviceTimers && timersAreEqual(deviceTimers, timers)) {
+        this.logs.debug('Timers of device %o are up to date.', displayName);
+        return;
+      }
+      await transport.setTimers(timers.slice(0, MAX_TIMERS));
+      this.logs.info('Synchronized %o timer(s) to device %o.', Math.min(timers.length, MAX_TIMERS), displayName);
+    } catch (error) {
+      this.logs.error('Unable to synchronize timers of device %o: %o', displayName, error);
+    }
+  }
+
+  /**
+   ** @queryWifiDiagnostics
+   * reads the Wi-Fi module's firmware, SSID, signal quality and MAC address over AT commands
+   */
+  async queryWifiDiagnostics(ipAddress: string): Promise<IWifiDiagnostics | null> {
+    if (this.config.wifiDiagnostics?.enabled === false) {
+      return null;
+    }
+    return new ATClient(this.logs, ipAddress).getDiagnostics();
+  }
+
+  /**
+   ** @updateWifiDiagnostics
+   * weak Wi-Fi is the most common reason for an unresponsive device, so a poor signal is worth a warning
+   */
+  updateWifiDiagnostics(accessory: MagicHomeAccessory, diagnostics: IWifiDiagnostics | null) {
+    if (this.config.wifiDiagnostics?.enabled === false) {
+      return;
+    }
+    const { displayName } = accessory.context.device;
+    if (!diagnostics) {
+      this.logs.debug('Device %o did not answer the Wi-Fi diagnostics query.', displayName);
+      return;
+    }
+    accessory.context.device.wifiDiagnostics = diagnostics;
+
+    const poorSignalThreshold = this.config.wifiDiagnostics?.poorSignalThreshold ?? 40;
+    if (diagnostics.signalQuality !== null && diagnostics.signalQuality < poorSignalThreshold) {
+      this.logs.warn('Device %o has a poor Wi-Fi signal (%o%) on %o. Commands may fail or time out, consider moving the device or the access point.',
+        displayName, diagnostics.signalQuality, diagnostics.ssid);
+    }
+  }
+
   printDeviceInfo(message: string, accessory: MagicHomeAccessory){
+    const { wifiDiagnostics } = accessory.context.device;
     this.logs.info( '%o - ' + message +
-    '\nDisplay Name: %o \nController Logic Type: %o  \nModel: %o \nUnique ID: %o \nIP-Address: %o \nHardware Version: %o \nFirmware Version: %o \n',
+    '\nDisplay Name: %o \nController Logic Type: %o  \nModel: %o \nUnique ID: %o \nIP-Address: %o \nHardware Version: %o \nFirmware Version: %o \n' +
+    'Wi-Fi Module Firmware: %o \nSSID: %o \nSignal Quality: %o \nMAC Address: %o \n',
     this.count++,
     accessory.context.device.displayName,
     accessory.context.device.lightParameters?.controllerLogicType,
@@ -550,7 +887,11 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
     accessory.context.device.uniqueId,
     accessory.context.device.ipAddress,
     accessory.context.device.controllerHardwareVersion?.toString(16),
-    accessory.context.device.controllerFirmwareVersion?.toString(16));
+    accessory.context.device.controllerFirmwareVersion?.toString(16),
+    wifiDiagnostics?.moduleFirmware,
+    wifiDiagnostics?.ssid,
+    wifiDiagnostics?.signalQuality != null ? `${wifiDiagnostics.signalQuality}%` : undefined,
+    wifiDiagnostics?.macAddress);
   }
 
   async send(transport, command: number[], useChecksum = true, _timeout = 200) {
@@ -602,11 +943,14 @@ export class HomebridgeMagichomeDynamicPlatform implements DynamicPlatformPlugin
 
   }
 
-  function getHardwareVersion(controllerType) {
-  for (let [key, value] of lightTypesMap.entries()) {
-    if (value === controllerType)
+}//ZackneticMagichomePlatform class
+
+function getHardwareVersion(overrideEntry): number | null {
+  const { controllerType } = overrideEntry || {};
+  for (const [key, value] of lightTypesMap.entries()) {
+    if (value.controllerLogicType === controllerType) {
       return key;
+    }
   }
+  return null;
 }
-
-}//ZackneticMagichomePlatform class
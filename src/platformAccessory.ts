@@ -3,20 +3,32 @@ import type {
   Service, PlatformConfig, PlatformAccessory, CharacteristicValue,
   CharacteristicSetCallback, CharacteristicGetCallback,
 } from 'homebridge';
-import { clamp, convertHSLtoRGB, convertRGBtoHSL } from './magichome-interface/utils';
+import { clamp, convertHSLtoRGB, convertRGBtoHSL, sleep, speedToDelay } from './magichome-interface/utils';
 import { HomebridgeMagichomeDynamicPlatform } from './platform';
-import { Transport } from './magichome-interface/Transport';
+import { getTransport, releaseTransport } from './magichome-interface/Transport';
 import { getLogs } from './logs';
-import { MagicHomeAccessory, IDeviceProps } from './magichome-interface/types';
+import {
+  MagicHomeAccessory, IDeviceProps, IAnimation, IColorChannels, ICustomSequence, ILightState, IPendingCommands, OperatingModes,
+} from './magichome-interface/types';
+import { isSameLightState } from './magichome-interface/StateDecoder';
+import { buildColorFrame, getProtocolProfile } from './magichome-interface/ProtocolProfiles';
+import { presetPatternsMap, getPresetPattern } from './magichome-interface/PresetPatterns';
+import { buildCustomSequenceCommand, isValidCustomSequence } from './magichome-interface/CustomSequence';
+import { CommandScheduler } from './scheduler';
+import { findMismatches, getVerificationStats, getWriteVerification } from './magichome-interface/WriteVerification';
 
 const COMMAND_POWER_ON = [0x71, 0x23, 0x0f];
 const COMMAND_POWER_OFF = [0x71, 0x24, 0x0f];
-const animations = {
+const COMMAND_PRESET_PATTERN = 0x61;
+const PRESET_SUBTYPE_PREFIX = 'preset-';
+const CUSTOM_SUBTYPE_PREFIX = 'custom-';
+const animations: { [key: string]: IAnimation } = {
   none: { name: 'none', brightnessInterrupt: true, hueSaturationInterrupt: true },
 };
+const POWER_SETTLE_TIME = 100; // some controllers drop a color frame sent right after turning on
+const LOCATE_AFTER_FAILURES = 2; // failed requests in a row before looking for the device at another address
+const LOCATE_INTERVAL = 60000; // at most one lookup a minute while a device stays away
 
-
-const INTRA_MESSAGE_TIME = 20; 
 /**
  * Platform Accessory
  * An instance of this class is created for each accessory your platform registers
@@ -25,7 +37,8 @@ const INTRA_MESSAGE_TIME = 20;
 export class HomebridgeMagichomeDynamicPlatformAccessory {
   protected service: Service;
   protected myDevice: IDeviceProps = this.accessory.context.device;
-  protected transport = new Transport(this.myDevice.cachedIPAddress, this.config);
+  protected protocolProfile = getProtocolProfile(this.myDevice);
+  protected transport = getTransport(this.myDevice.cachedIPAddress, this.config, this.myDevice.uniqueId);
   protected colorWhiteThreshold = this.config.whiteEffects.colorWhiteThreshold;
   protected colorWhiteThresholdSimultaniousDevices = this.config.whiteEffects.colorWhiteThresholdSimultaniousDevices;
   protected colorOffThresholdSimultaniousDevices = this.config.whiteEffects.colorOffThresholdSimultaniousDevices;
@@ -33,12 +46,15 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
 
   //protected interval;
   public activeAnimation = animations.none;
+  protected effectSpeed: number = this.config.effects?.effectSpeed ?? 50;
+  protected effectServices: Map<IAnimation, Service> = new Map();
   protected setColortemp = false;
-  protected colorCommand = false;
-  protected deviceWriteInProgress = false;
-  protected deviceWriteRetry: any = null;
-  protected deviceUpdateInProgress = false;
   protected deviceReadInProgress = false;
+  protected scheduler = new CommandScheduler(this.executeCommands.bind(this));
+  protected lastSentChannels: IColorChannels = null;
+  protected isPolled = false;
+  protected isReachable = true;
+  protected lastLocateAttempt = 0;
   logs = getLogs();
   public lightStateTemporary= {
     HSL: { hue: 255, saturation: 100, luminance: 50 },
@@ -56,6 +72,7 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     isOn: true,
     brightness: 100,
     CCT: 0,
+    operatingMode: OperatingModes.unknown,
   }
 
   //=================================================
@@ -86,8 +103,10 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     // you can create multiple services for each accessory
     if(this.myDevice.lightParameters.hasBrightness || this.myDevice.lightParameters.hasBrightness == undefined){
             
-      if (this.accessory.getService(this.platform.Service.Switch)) {
-        this.accessory.removeService(this.accessory.getService(this.platform.Service.Switch));
+      // only the primary switch, effect switches share the service type but carry a subtype
+      const switchService = this.accessory.services.find(service => service.UUID === this.platform.Service.Switch.UUID && !service.subtype);
+      if (switchService) {
+        this.accessory.removeService(switchService);
       }
       this.service = this.accessory.getService(this.platform.Service.Lightbulb) ?? this.accessory.addService(this.platform.Service.Lightbulb);
       this.myDevice.lightParameters.hasBrightness = true;
@@ -137,7 +156,8 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
       }
     } else {
 
-      this.service = this.accessory.getService(this.platform.Service.Switch) ?? this.accessory.addService(this.platform.Service.Switch);
+      this.service = this.accessory.services.find(service => service.UUID === this.platform.Service.Switch.UUID && !service.subtype)
+        ?? this.accessory.addService(this.platform.Service.Switch);
       this.service.getCharacteristic(this.platform.Characteristic.ConfiguredName)
         .removeAllListeners(CharacteristicEventTypes.SET)
         .removeAllListeners(CharacteristicEventTypes.GET)
@@ -151,6 +171,11 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
       .on(CharacteristicEventTypes.SET, this.setOn.bind(this))              // SET - bind to the `setOn` method below
       .on(CharacteristicEventTypes.GET, this.getOn.bind(this));               // GET - bind to the `getOn` method below
     //this.service2.updateCharacteristic(this.platform.Characteristic.On, false);
+    this.configureEffectServices();
+
+    this.attachTransport();
+    this.configureStatusFault();
+    this.isPolled = this.platform.statePoller.register(this.myDevice.uniqueId, this.pollState.bind(this));
     this.updateLocalState();
     // set the service name, this is what is displayed as the default name on the Home app
     // in this example we are using the name we stored in the `accessory.context` in the `discoverDevices` method.
@@ -163,6 +188,20 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
   //=================================================
   // End Constructor //
 
+  attachTransport() {
+    if (this.config.advancedOptions?.listenForDeviceUpdates ?? true) {
+      // one accessory per device, drop the listener left behind by a previous instance for this device
+      this.transport.removeAllListeners('state');
+      this.transport.on('state', this.onDeviceStateUpdate.bind(this));
+      this.transport.listen();
+    }
+    this.isReachable = this.transport.reachable;
+    this.transport.removeAllListeners('reachability');
+    this.transport.on('reachability', this.onReachabilityChange.bind(this));
+    this.transport.removeAllListeners('failure');
+    this.transport.on('failure', this.onTransportFailure.bind(this));
+  }
+
   //=================================================
   // Start Setters //
 
@@ -181,35 +220,39 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
 
   }
 
-  setHue(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+  async setHue(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    if (this.activeAnimation.hueSaturationInterrupt) {
+      this.stopAnimation();
+    }
     this.setColortemp = false;
     this.lightState.HSL.hue = value as number; 
-    this.colorCommand = true;
-    this.processRequest();
-    callback(null);
+    this.completeSet(callback, await this.scheduleUpdate({ color: true }));
   }
 
-  setSaturation(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+  async setSaturation(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    if (this.activeAnimation.hueSaturationInterrupt) {
+      this.stopAnimation();
+    }
     this.setColortemp = false;
     this.lightState.HSL.saturation = value as number; 
-    this.colorCommand = true;
-    this.processRequest();
-    callback(null);
+    this.completeSet(callback, await this.scheduleUpdate({ color: true }));
   }
 
-  setBrightness(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+  async setBrightness(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    if (this.activeAnimation.brightnessInterrupt) {
+      this.stopAnimation();
+    }
     this.lightState.brightness = value as number; 
-    this.colorCommand = true;
-    this.processRequest();
-    callback(null);
+    this.completeSet(callback, await this.scheduleUpdate({ color: true }));
   }
 
-  setColorTemperature(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+  async setColorTemperature(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    if (this.activeAnimation.hueSaturationInterrupt) {
+      this.stopAnimation();
+    }
     this.setColortemp = true;
     this.lightState.CCT = value as number; 
-    this.colorCommand = true;
-    this.processRequest();
-    callback(null);
+    this.completeSet(callback, await this.scheduleUpdate({ color: true }));
   }
 
   /*
@@ -219,11 +262,10 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     callback(null);
   }*/
 
-  setOn(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+  async setOn(value: CharacteristicValue, callback: CharacteristicSetCallback) {
     
     this.lightState.isOn = value as boolean;
-    this.processRequest();
-    callback(null);
+    this.completeSet(callback, await this.scheduleUpdate({ power: true }));
   }
 
   //=================================================
@@ -239,9 +281,9 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     //update state with actual values asynchronously
     this.logs.debug('Get Characteristic Hue -> %o for device: %o ', hue, this.myDevice.displayName);
     if(!this.setColortemp){
-      this.updateLocalState();
+      this.refreshStateOnGet();
     }
-    callback(null, hue);
+    this.respond(callback, hue);
   }
 
   getColorTemperature(callback: CharacteristicGetCallback) {
@@ -251,9 +293,9 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     //update state with actual values asynchronously
     this.logs.debug('Get Characteristic Hue -> %o for device: %o ', CCT, this.myDevice.displayName);
     if(this.setColortemp){
-      this.updateLocalState();
+      this.refreshStateOnGet();
     }
-    callback(null, CCT);
+    this.respond(callback, CCT);
   }
 
   getBrightness(callback: CharacteristicGetCallback) {
@@ -265,9 +307,9 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     //this.getState();
 
     this.logs.debug('Get Characteristic Brightness -> %o for device: %o ', brightness, this.myDevice.displayName);
-    this.updateLocalState();
+    this.refreshStateOnGet();
 
-    callback(null, brightness);
+    this.respond(callback, brightness);
   }
 
   /**
@@ -280,10 +322,10 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     const isOn = this.lightState.isOn;
 
     //update state with actual values asynchronously
-    this.updateLocalState();
+    this.refreshStateOnGet();
 
     this.logs.debug('Get Characteristic On -> %o for device: %o ', isOn, this.myDevice.displayName);
-    callback(null, isOn);
+    this.respond(callback, isOn);
   }
 
   //=================================================
@@ -300,30 +342,20 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
    */
   async updateLocalState() {
 
-    if( this.deviceWriteInProgress || this.deviceUpdateInProgress || this.deviceReadInProgress){
+    if( this.scheduler.isBusy || this.deviceReadInProgress){
       return;
     }
     this.deviceReadInProgress = true;
     
     try {
-      let state;
-      let scans = 0;
-      while(state == null && scans <= 5){
-        state = await this.transport.getState(1000); //retrieve a state object from transport class showing light's current r,g,b,ww,cw, etc
-        scans++;
-      } 
+      const state = await this.transport.getState(1000); //retrieve a state object from transport class showing light's current r,g,b,ww,cw, etc
       if(state == null){
         const { ipAddress, uniqueId, displayName } = this.myDevice;
         this.logs.debug(`No response from device '${displayName}' (${uniqueId}) ${ipAddress}`); 
         this.deviceReadInProgress = false;
         return;
       }
-      this.myDevice.lastKnownState = state;
-      this.updateLocalRGB(state.RGB);
-      this.updateLocalHSL(convertRGBtoHSL(this.lightState.RGB));
-      this.updateLocalWhiteValues(state.whiteValues);
-      this.updateLocalIsOn(state.isOn);
-      this.updateHomekitState();
+      this.applyDeviceState(state);
 
     } catch (error) {
       this.logs.error('getState() error: ', error);
@@ -331,6 +363,166 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     this.deviceReadInProgress = false;
   }
 
+  /**
+   ** @refreshStateOnGet
+   * polled devices answer GETs from the cached state, the others read the device on every GET
+   */
+  refreshStateOnGet() {
+    if (!this.isPolled) {
+      this.updateLocalState();
+    }
+  }
+
+  /**
+   ** @pollState
+   * called by the platform's state poller, only touches homekit when the device state changed
+   */
+  async pollState() {
+    if( this.scheduler.isBusy || this.deviceReadInProgress){
+      return;
+    }
+    const state = await this.transport.getState(1000);
+    if (state == null) {
+      this.logs.trace('No poll response from device: %o', this.myDevice.displayName);
+      return;
+    }
+    if (isSameLightState(state, this.myDevice.lastKnownState)) {
+      return;
+    }
+    this.logs.debug('State of device %o changed, updating homekit', this.myDevice.displayName);
+    this.applyDeviceState(state);
+  }
+
+  /**
+   ** @onDeviceStateUpdate
+   * state pushed by the device after it was changed outside of homekit (MagicHome app, IR/RF remote)
+   * ignored while we are sending our own changes, the device may echo intermediate states
+   */
+  onDeviceStateUpdate(state: ILightState) {
+    if( this.scheduler.isBusy){
+      return;
+    }
+    if (isSameLightState(state, this.myDevice.lastKnownState)) {
+      return;
+    }
+    this.logs.debug('Received state update from device: %o', this.myDevice.displayName);
+    this.applyDeviceState(state);
+  }
+
+  /**
+   ** @respond
+   * answer a GET or SET, or fail it while the device is unreachable
+   * hap reports a callback error as SERVICE_COMMUNICATION_FAILURE, which the Home app shows as "No Response"
+   */
+  respond(callback: CharacteristicGetCallback | CharacteristicSetCallback, value?: CharacteristicValue) {
+    if (!this.isReachable) {
+      callback(this.communicationFailure());
+      return;
+    }
+    callback(null, value);
+  }
+
+  completeSet(callback: CharacteristicSetCallback, success: boolean) {
+    callback(success ? null : this.communicationFailure());
+  }
+
+  communicationFailure(): Error {
+    return new Error(`Device '${this.myDevice.displayName}' (${this.myDevice.uniqueId}) is not responding`);
+  }
+
+  /**
+   ** @onReachabilityChange
+   * called by the transport when the device stops answering or answers again
+   */
+  onReachabilityChange(reachable: boolean) {
+    this.isReachable = reachable;
+    this.updateStatusFault();
+    if (reachable) {
+      this.logs.info('Device %o is reachable again.', this.myDevice.displayName);
+      this.updateLocalState();
+    } else {
+      this.logs.warn('Device %o is not responding, it is shown as "No Response" until it answers again.', this.myDevice.displayName);
+      // push the failure so open Home app screens switch to "No Response" without waiting for a GET
+      this.service.getCharacteristic(this.platform.Characteristic.On).updateValue(this.communicationFailure());
+    }
+  }
+
+  /**
+   ** @onTransportFailure
+   * a device which keeps failing has often been given a new address by DHCP, so look for it by its unique id
+   */
+  async onTransportFailure(failures: number) {
+    if (failures < LOCATE_AFTER_FAILURES || Date.now() - this.lastLocateAttempt < LOCATE_INTERVAL) {
+      return;
+    }
+    this.lastLocateAttempt = Date.now();
+    const device = await this.platform.locateDevice(this.myDevice.uniqueId);
+    if (device) {
+      this.relocate(device.ipAddress);
+    }
+  }
+
+  /**
+   ** @relocate
+   * move to the device's new address: the old transport is retired and a new one takes its listeners,
+   * everything else about the accessory stays as it is
+   */
+  relocate(ipAddress: string) {
+    const previousAddress = this.myDevice.cachedIPAddress;
+    if (ipAddress === previousAddress) {
+      return;
+    }
+    this.logs.warn('Device %o moved from %o to %o.', this.myDevice.displayName, previousAddress, ipAddress);
+
+    releaseTransport(previousAddress, this.myDevice.uniqueId);
+    this.myDevice.cachedIPAddress = ipAddress;
+    this.myDevice.ipAddress = ipAddress;
+    this.transport = getTransport(ipAddress, this.config, this.myDevice.uniqueId);
+    this.attachTransport();
+    this.updateStatusFault();
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+    this.updateLocalState();
+  }
+
+  /**
+   ** @configureStatusFault
+   * optionally flag unreachable devices with the StatusFault characteristic as well
+   * HAP doesn't list it for lightbulbs and switches, so it is declared optional here and the Home app doesn't
+   * show it, it is advisory for automations and third party apps which read it
+   */
+  configureStatusFault() {
+    const { StatusFault } = this.platform.Characteristic;
+    const hasStatusFault = this.service.testCharacteristic(StatusFault);
+    if (this.config.advancedOptions?.reportStatusFault) {
+      if (!this.service.optionalCharacteristics.some(characteristic => characteristic.UUID === StatusFault.UUID)) {
+        this.service.addOptionalCharacteristic(StatusFault);
+      }
+      this.updateStatusFault();
+    } else if (hasStatusFault) {
+      this.service.removeCharacteristic(this.service.getCharacteristic(StatusFault));
+    }
+  }
+
+  updateStatusFault() {
+    if (!this.config.advancedOptions?.reportStatusFault) {
+      return;
+    }
+    const { NO_FAULT, GENERAL_FAULT } = this.platform.Characteristic.StatusFault;
+    this.service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.isReachable ? NO_FAULT : GENERAL_FAULT);
+  }
+
+  applyDeviceState(state: ILightState) {
+    this.myDevice.lastKnownState = state;
+    this.updateLocalRGB(state.RGB);
+    this.updateLocalHSL(convertRGBtoHSL(this.lightState.RGB));
+    this.updateLocalWhiteValues(state.whiteValues);
+    this.updateLocalIsOn(state.isOn);
+    this.updateLocalOperatingMode(state.operatingMode);
+    this.updateLocalAnimation(state);
+    this.updateHomekitState();
+    this.updateEffectServices();
+  }
+
   /**
    ** @updateHomekitState
    * send state to homekit
@@ -340,7 +532,7 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     this.service.updateCharacteristic(this.platform.Characteristic.On,  this.lightState.isOn);
     this.service.updateCharacteristic(this.platform.Characteristic.Hue, this.lightState.HSL.hue);
     this.service.updateCharacteristic(this.platform.Characteristic.Saturation, this.lightState.HSL.saturation);
-    if(this.lightState.HSL.luminance > 0 && this.lightState.isOn){
+    if(!this.isWhiteMode() && this.lightState.isOn){
       this.updateLocalBrightness(this.lightState.HSL.luminance * 2);
     }
     this.service.updateCharacteristic(this.platform.Characteristic.Brightness,  this.lightState.brightness);
@@ -366,6 +558,41 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     this.lightState.brightness = _brightness;
   }
 
+  updateLocalOperatingMode(_operatingMode){
+    this.lightState.operatingMode = _operatingMode ?? OperatingModes.unknown;
+  }
+
+  updateLocalAnimation(state: ILightState){
+    if (state.operatingMode === OperatingModes.preset) {
+      this.activeAnimation = getPresetPattern(state.presetPattern) ?? animations.none;
+      this.effectSpeed = state.effectSpeed ?? this.effectSpeed;
+    } else if (state.operatingMode === OperatingModes.custom) {
+      // the device doesn't report which sequence it runs, so trust the last one we uploaded
+      if (!this.activeAnimation.customSequence) {
+        this.activeAnimation = animations.none;
+      }
+    } else {
+      this.activeAnimation = animations.none;
+    }
+  }
+
+  /**
+   ** @isWhiteMode
+   * true when only the white channels are lit
+   * uses the color mode reported by the device, falling back to the rgb values for firmware that doesn't report it
+   */
+  isWhiteMode(): boolean {
+    switch (this.lightState.operatingMode) {
+      case OperatingModes.white:
+        return true;
+      case OperatingModes.color:
+      case OperatingModes.colorAndWhite:
+        return false;
+      default:
+        return !(this.lightState.HSL.luminance > 0);
+    }
+  }
+
 
   /**
    ** @updateDeviceState
@@ -373,7 +600,7 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
    *  perform different logic based on light's capabilities, detimined by "this.myDevice.lightVersion"
    *  
    */
-  async updateDeviceState(_timeout = 200) {
+  async updateDeviceState(_timeout = 200): Promise<boolean> {
 
     //**** local variables ****\\
     const hsl = this.lightState.HSL;
@@ -392,9 +619,7 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
     const g = Math.round(((clamp(green, 0, 255) / 100) * brightness));
     const b = Math.round(((clamp(blue, 0, 255) / 100) * brightness));
 
-    await this.send([0x31, r, g, b, 0x00, mask, 0x0F], true, _timeout); //8th byte checksum calculated later in send()
-  
-
+    return this.sendColor({ red: r, green: g, blue: b, warmWhite: 0, coldWhite: 0, mask }, _timeout);
 
   }//updateDeviceState
 
@@ -461,14 +686,25 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
   
 
 
-  async send(command: number[], useChecksum = true, _timeout = 200) {
+  /**
+   * Returns false when the command could not be delivered.
+   */
+  async send(command: number[], useChecksum = this.protocolProfile.useChecksum, _timeout = 200): Promise<boolean> {
     const buffer = Buffer.from(command);
 
-    const output = await this.transport.send(buffer, useChecksum, _timeout);
-    //this.logs.debug('Recieved the following response', output);
-
+    const result = await this.transport.request(buffer, useChecksum, _timeout);
+    return result != null;
   } //send
 
+  /**
+   ** @sendColor
+   * send a 0x31 color frame laid out the way this device's protocol profile describes
+   */
+  async sendColor(channels: IColorChannels, _timeout = 200): Promise<boolean> {
+    this.lastSentChannels = channels;
+    return this.send(buildColorFrame(this.protocolProfile, channels), this.protocolProfile.useChecksum, _timeout);
+  }
+
   cacheCurrentLightState(){
     this.lightStateTemporary.HSL = this.lightState.HSL;
   }
@@ -518,42 +754,220 @@ export class HomebridgeMagichomeDynamicPlatformAccessory {
   
   async stopAnimation(){
     this.activeAnimation = animations.none;
-    // this.service2.updateCharacteristic(this.platform.Characteristic.On, false);
+    this.updateEffectServices();
     //clearInterval(this.interval);
   }
 
+  /**
+   ** @configureEffectServices
+   * add a service for every preset pattern and custom sequence enabled in config
+   * presets are fans so their RotationSpeed sets the effect speed, custom sequences are switches
+   * services of effects that were removed from config since the accessory was cached are removed as well
+   */
+  configureEffectServices() {
+    const effects: Map<string, IAnimation> = new Map();
+
+    if (this.myDevice.lightParameters.hasColor) {
+      for (const key of this.config.effects?.presetPatterns ?? []) {
+        if (presetPatternsMap.has(key)) {
+          effects.set(PRESET_SUBTYPE_PREFIX + key, presetPatternsMap.get(key));
+        }
+      }
+      for (const customSequence of (this.config.effects?.customSequences ?? []) as ICustomSequence[]) {
+        if (!isValidCustomSequence(customSequence)) {
+          this.logs.warn('Ignoring invalid custom sequence %o. A sequence needs a name, 1 to 16 steps and a transition.', customSequence?.name);
+          continue;
+        }
+        effects.set(CUSTOM_SUBTYPE_PREFIX + customSequence.name, {
+          name: customSequence.name,
+          customSequence,
+          brightnessInterrupt: true,
+          hueSaturationInterrupt: true,
+        });
+      }
+    }
+
+    const serviceTypeOf = (effect: IAnimation) => effect.presetPattern ? this.platform.Service.Fan : this.platform.Service.Switch;
+    const isEffectService = (subtype: string) => subtype?.startsWith(PRESET_SUBTYPE_PREFIX) || subtype?.startsWith(CUSTOM_SUBTYPE_PREFIX);
+    for (const service of this.accessory.services.filter(service => isEffectService(service.subtype))) {
+      const effect = effects.get(service.subtype);
+      if (!effect || service.UUID !== serviceTypeOf(effect).UUID) {
+        this.accessory.removeService(service);
+      }
+    }
+
+    for (const [subtype, effect] of effects) {
+      const serviceType = serviceTypeOf(effect);
+      const service = this.accessory.getServiceById(serviceType, subtype)
+        ?? this.accessory.addService(serviceType, effect.name, subtype);
+
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .removeAllListeners(CharacteristicEventTypes.SET)
+        .removeAllListeners(CharacteristicEventTypes.GET)
+        .on(CharacteristicEventTypes.SET, (value: CharacteristicValue, callback: CharacteristicSetCallback) => this.setEffect(effect, value as boolean, callback))
+        .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => this.respond(callback, this.activeAnimation === effect));
+
+      if (effect.presetPattern) {
+        service.getCharacteristic(this.platform.Characteristic.RotationSpeed)
+          .removeAllListeners(CharacteristicEventTypes.SET)
+          .removeAllListeners(CharacteristicEventTypes.GET)
+          .on(CharacteristicEventTypes.SET, this.setEffectSpeed.bind(this))
+          .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => this.respond(callback, this.effectSpeed));
+      }
+
+      this.effectServices.set(effect, service);
+    }
+  }
+
+  async setEffect(effect: IAnimation, value: boolean, callback: CharacteristicSetCallback) {
+    let success = true;
+    if (value) {
+      this.logs.debug('Starting effect %o on device: %o', effect.name, this.myDevice.displayName);
+      this.activeAnimation = effect;
+      this.lightState.isOn = true;
+      success = await this.scheduleUpdate({ power: true, effect: true });
+    } else if (this.activeAnimation === effect) {
+      // return to the last static color
+      this.activeAnimation = animations.none;
+      success = await this.scheduleUpdate({ color: true });
+    }
+    this.updateEffectServices();
+    this.completeSet(callback, success);
+  }
+
+  async setEffectSpeed(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    this.effectSpeed = value as number;
+    let success = true;
+    if (this.activeAnimation.presetPattern) {
+      success = await this.scheduleUpdate({ effect: true });
+    }
+    this.updateEffectServices();
+    this.completeSet(callback, success);
+  }
+
+  /**
+   ** @sendEffect
+   * start the active animation on the device
+   * custom sequences are uploaded in full every time, the controller keeps running them on its own
+   */
+  async sendEffect(): Promise<boolean> {
+    const { presetPattern, customSequence } = this.activeAnimation;
+    if (presetPattern) {
+      return this.send([COMMAND_PRESET_PATTERN, presetPattern, speedToDelay(this.effectSpeed), 0x0F]);
+    } else if (customSequence) {
+      return this.send(buildCustomSequenceCommand(customSequence));
+    }
+    return true;
+  }
+
+  updateEffectServices() {
+    for (const [effect, service] of this.effectServices) {
+      service.updateCharacteristic(this.platform.Characteristic.On, this.activeAnimation === effect);
+      if (effect.presetPattern) {
+        service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, this.effectSpeed);
+      }
+    }
+  }
+
   //=================================================
   // End LightEffects //
 
-  protected myTimer = null
-  protected timestamps = []
-
-  protected timeOfLastRead = null; 
-  protected timeOfLastWrite = null; 
-
-
-
-  processRequest(){
-    if(!this.deviceUpdateInProgress){
-      this.deviceUpdateInProgress = true;
-      setTimeout(   async () =>  {
-        if (( !this.colorCommand) || !this.lightState.isOn){ //if no color command or a command to turn the light off
-          await this.send(this.lightState.isOn ? COMMAND_POWER_ON : COMMAND_POWER_OFF); // set the power
-        } else {
-          if((this.myDevice.controllerFirmwareVersion <= 5 && this.myDevice.controllerFirmwareVersion > 1) 
-          || this.myDevice.controllerFirmwareVersion == 8 
-          || (this.myDevice.controllerFirmwareVersion == 1 && this.myDevice.modelNumber.includes('HF-LPB100-ZJ200'))){ 
-            await this.send( COMMAND_POWER_ON ); // set the power
-          }
-          setTimeout(   async () =>  {
-            await this.updateDeviceState(); // set color
-          }, 100);
-        }
-        this.colorCommand = false;
-        this.deviceUpdateInProgress = false;
-      }, INTRA_MESSAGE_TIME);
+  /**
+   ** @scheduleUpdate
+   * queue a power, color and/or effect change, resolves with whether it reached the device
+   */
+  scheduleUpdate(commands: Partial<IPendingCommands>): Promise<boolean> {
+    return this.scheduler.schedule(commands);
+  }
+
+  /**
+   ** @executeCommands
+   * run by the scheduler with everything that changed since the last update
+   */
+  async executeCommands(commands: IPendingCommands): Promise<boolean> {
+    const sent = await this.sendCommands(commands);
+    if (!sent || !getWriteVerification(this.config, this.myDevice.uniqueId).enabled) {
+      return sent;
+    }
+    return this.verifyCommands(commands);
+  }
+
+  /**
+   ** @sendCommands
+   * send the latest light state, power always goes out before color
+   * a light that should be off only gets the power command
+   * an effect started after a color change replaces it, changing the color stops the effect before it is scheduled
+   */
+  async sendCommands({ power, color, effect }: IPendingCommands): Promise<boolean> {
+    if (!this.lightState.isOn) {
+      return this.send(COMMAND_POWER_OFF);
+    }
+
+    const runsEffect = effect && this.activeAnimation !== animations.none;
+    const sendsColor = color && !runsEffect;
+    if (power || (sendsColor && this.protocolProfile.powerOnBeforeColor)) {
+      if (!await this.send(COMMAND_POWER_ON)) {
+        return false;
+      }
+      if (sendsColor) {
+        await sleep(POWER_SETTLE_TIME);
+      }
+    }
+
+    if (runsEffect) {
+      return this.sendEffect();
+    }
+    if (sendsColor) {
+      return this.updateDeviceState();
+    }
+    return true;
+  }
+
+  /**
+   ** @verifyCommands
+   * read the state back and compare it with what was sent, resending when the device didn't apply it
+   * when it still differs after all retries, homekit is reconciled with what the hardware actually shows
+   * skipped once newer changes are queued, those are sent (and verified) next anyway
+   */
+  async verifyCommands(commands: IPendingCommands): Promise<boolean> {
+    const { uniqueId, displayName } = this.myDevice;
+    const { retries, tolerance, settleDelay } = getWriteVerification(this.config, uniqueId);
+    const stats = getVerificationStats(uniqueId);
+
+    for (let attempt = 0; !this.scheduler.hasPending; attempt++) {
+      await sleep(settleDelay);
+      if (this.scheduler.hasPending) {
+        break;
+      }
+      const state = await this.transport.getState(1000);
+      if (state == null) {
+        return false;
+      }
+      stats.verifications++;
+
+      // a running effect keeps changing the channels, only its power state can be checked
+      const showsColor = commands.color && this.activeAnimation === animations.none;
+      const expected = { isOn: this.lightState.isOn, channels: showsColor ? this.lastSentChannels : null };
+      const mismatches = findMismatches(expected, state, this.protocolProfile, tolerance);
+      if (mismatches.length === 0) {
+        return true;
+      }
+      stats.mismatches++;
+      stats.lastMismatch = mismatches;
+      this.logs.debug('Device %o did not apply %o. Verification statistics: %o', displayName, mismatches, stats);
+
+      if (attempt >= retries || this.scheduler.hasPending) {
+        stats.reconciliations++;
+        this.logs.warn('Device %o kept ignoring %o, showing its actual state in HomeKit.', displayName, mismatches);
+        this.applyDeviceState(state);
+        return true;
+      }
+      stats.retries++;
+      if (!await this.sendCommands(commands)) {
+        return false;
+      }
     }
-    return;
+    return true;
   }
 
   /**
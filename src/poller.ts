@@ -0,0 +1,84 @@
+import Queue from 'promise-queue';
+import type { PlatformConfig } from 'homebridge';
+import { Logs } from './logs';
+import { matchesUniqueId } from './magichome-interface/utils';
+
+const DEFAULT_INTERVAL = 30; // seconds
+const DEFAULT_JITTER = 5; // seconds
+const DEFAULT_MAX_CONCURRENT_POLLS = 3;
+const MIN_DELAY = 1000;
+
+/**
+ * Background state polling for devices which don't push their state.
+ * Every device is polled on its own timer, spread out with random jitter,
+ * and no more than maxConcurrentPolls requests run at once across all devices.
+ */
+export class StatePoller {
+  private readonly queue: Queue;
+  private readonly timers: Map<string, NodeJS.Timeout> = new Map();
+  private stopped = false;
+
+  constructor(
+    private readonly logs: Logs,
+    private readonly config: PlatformConfig,
+  ) {
+    this.queue = new Queue(this.config.statePolling?.maxConcurrentPolls ?? DEFAULT_MAX_CONCURRENT_POLLS, Infinity);
+  }
+
+  private getDeviceConfig(uniqueId: string) {
+    return (this.config.statePolling?.devices ?? []).find(entry => matchesUniqueId(entry?.uniqueId, uniqueId)) ?? {};
+  }
+
+  isEnabled(uniqueId: string): boolean {
+    return this.getDeviceConfig(uniqueId).enabled ?? this.config.statePolling?.enabled ?? true;
+  }
+
+  getInterval(uniqueId: string): number {
+    return (this.getDeviceConfig(uniqueId).interval ?? this.config.statePolling?.interval ?? DEFAULT_INTERVAL) * 1000;
+  }
+
+  /**
+   * Start polling a device, replacing any earlier registration for it.
+   * Returns false when polling is disabled for the device.
+   */
+  register(uniqueId: string, poll: () => Promise<void>): boolean {
+    this.unregister(uniqueId);
+    if (this.stopped || !this.isEnabled(uniqueId)) {
+      return false;
+    }
+    this.logs.trace('Polling device %o every %o seconds', uniqueId, this.getInterval(uniqueId) / 1000);
+    this.schedule(uniqueId, poll);
+    return true;
+  }
+
+  unregister(uniqueId: string) {
+    clearTimeout(this.timers.get(uniqueId));
+    this.timers.delete(uniqueId);
+  }
+
+  stop() {
+    this.stopped = true;
+    for (const uniqueId of Array.from(this.timers.keys())) {
+      this.unregister(uniqueId);
+    }
+  }
+
+  private schedule(uniqueId: string, poll: () => Promise<void>) {
+    const jitter = (this.config.statePolling?.jitter ?? DEFAULT_JITTER) * 1000;
+    const delay = Math.max(MIN_DELAY, this.getInterval(uniqueId) + (Math.random() * 2 - 1) * jitter);
+
+    const timer = setTimeout(async () => {
+      try {
+        await this.queue.add(poll);
+      } catch (error) {
+        this.logs.debug('Polling device %o failed: %o', uniqueId, error);
+      }
+      // the next poll is only scheduled once this one finished, so a slow device never piles up requests
+      if (this.timers.get(uniqueId) === timer) {
+        this.schedule(uniqueId, poll);
+      }
+    }, delay);
+
+    this.timers.set(uniqueId, timer);
+  }
+}
@@ -0,0 +1,95 @@
+import type { PlatformConfig } from 'homebridge';
+import { Logs } from './logs';
+
+const DEFAULT_MIN_INTERVAL = 30; // seconds
+const DEFAULT_MAX_INTERVAL = 600; // seconds
+const STARTUP_INTERVAL = 5; // seconds, devices which were powered up with the host often take a while to join Wi-Fi
+const STARTUP_PASSES = 3;
+
+/**
+ * Decides when the platform scans for devices again.
+ * Right after startup passes run quickly until every known device was seen. From then on the interval doubles
+ * after every pass which saw all of them, up to maxInterval, and falls back to minInterval as soon as one is missing.
+ * speedUp() does that right away, e.g. when an accessory's device stopped answering and couldn't be found.
+ */
+export class RediscoveryScheduler {
+  private timer: NodeJS.Timeout = null;
+  private nextPass = 0;
+  private interval: number;
+  private passes = 0;
+  private stopped = false;
+
+  /**
+   * discover runs one discovery pass and resolves whether every known device was seen in it.
+   */
+  constructor(
+    private readonly logs: Logs,
+    private readonly config: PlatformConfig,
+    private readonly discover: () => Promise<boolean>,
+  ) {
+    this.interval = this.minInterval;
+  }
+
+  get minInterval(): number {
+    return Math.max(1, this.config.discovery?.minInterval ?? DEFAULT_MIN_INTERVAL) * 1000;
+  }
+
+  get maxInterval(): number {
+    return Math.max(this.minInterval, (this.config.discovery?.maxInterval ?? DEFAULT_MAX_INTERVAL) * 1000);
+  }
+
+  start() {
+    this.schedule(0);
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Go back to minInterval, moving the next pass forward when it was scheduled later than that.
+   */
+  speedUp(reason: string) {
+    if (this.stopped || this.interval === this.minInterval) {
+      return;
+    }
+    this.logs.debug('Scanning every %o seconds again: %o', this.minInterval / 1000, reason);
+    this.interval = this.minInterval;
+    if (this.timer && this.nextPass > Date.now() + this.interval) {
+      this.schedule(this.interval);
+    }
+  }
+
+  private schedule(delay: number) {
+    clearTimeout(this.timer);
+    this.nextPass = Date.now() + delay;
+    this.timer = setTimeout(() => this.run(), delay);
+  }
+
+  private async run() {
+    this.timer = null;
+    let allSeen = false;
+    try {
+      allSeen = await this.discover();
+    } catch (error) {
+      this.logs.error('Discovery pass failed: %o', error);
+    }
+    this.passes++;
+
+    if (this.stopped) {
+      return;
+    }
+
+    if (!allSeen) {
+      this.interval = this.passes <= STARTUP_PASSES ? Math.min(STARTUP_INTERVAL * 1000, this.minInterval) : this.minInterval;
+    } else if (this.passes === 1) {
+      this.interval = this.minInterval;
+    } else {
+      this.interval = Math.min(Math.max(this.interval * 2, this.minInterval), this.maxInterval);
+    }
+    this.logs.debug('Next discovery pass in %o seconds.', Math.round(this.interval / 1000));
+    this.schedule(this.interval);
+  }
+}
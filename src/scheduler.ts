@@ -0,0 +1,66 @@
+import { IPendingCommands } from './magichome-interface/types';
+
+const SETTLE_TIME = 20; // HomeKit sends the characteristics of one change as separate SETs, a few ms apart
+
+/**
+ * Per device command queue. Changes scheduled close together are coalesced into one update,
+ * which reads the accessory's state when it runs, so the last requested state always wins.
+ * Only one update runs at a time, changes scheduled meanwhile go out in the next one.
+ * Every caller gets a promise telling whether the update carrying its change reached the device.
+ */
+export class CommandScheduler {
+  private pending: IPendingCommands = null;
+  private waiting: ((success: boolean) => void)[] = [];
+  private timer: NodeJS.Timeout = null;
+  private running = false;
+
+  constructor(
+    private readonly execute: (commands: IPendingCommands) => Promise<boolean>,
+    private readonly settleTime = SETTLE_TIME,
+  ) {}
+
+  get isBusy(): boolean {
+    return this.pending != null || this.running;
+  }
+
+  get hasPending(): boolean {
+    return this.pending != null;
+  }
+
+  schedule(commands: Partial<IPendingCommands>): Promise<boolean> {
+    this.pending = {
+      power: this.pending?.power || (commands.power ?? false),
+      color: this.pending?.color || (commands.color ?? false),
+      effect: this.pending?.effect || (commands.effect ?? false),
+    };
+    const result = new Promise<boolean>(resolve => this.waiting.push(resolve));
+    if (!this.timer && !this.running) {
+      this.timer = setTimeout(() => this.run(), this.settleTime);
+    }
+    return result;
+  }
+
+  private async run() {
+    this.timer = null;
+    const commands = this.pending;
+    const waiting = this.waiting;
+    this.pending = null;
+    this.waiting = [];
+
+    this.running = true;
+    let success = false;
+    try {
+      success = await this.execute(commands);
+    } catch (error) {
+      success = false;
+    }
+    this.running = false;
+
+    for (const resolve of waiting) {
+      resolve(success);
+    }
+    if (this.pending) {
+      this.timer = setTimeout(() => this.run(), this.settleTime);
+    }
+  }
+}
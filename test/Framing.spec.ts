@@ -0,0 +1,82 @@
+import assert from 'assert';
+import { FrameAssembler } from '../src/magichome-interface/Framing';
+import { FrameTypes, IFrame } from '../src/magichome-interface/types';
+
+function fromHex(hex: string): Buffer {
+  return Buffer.from(hex.replace(/ /g, ''), 'hex');
+}
+
+function describeFrames(frames: IFrame[]) {
+  return frames.map(({ type, data }) => `${type}: ${data.toString('hex')}`);
+}
+
+// responses as controllers send them, checksum included
+const STATE = '81 35 23 61 21 01 ff 00 00 00 08 00 f0 53';
+const POWER_ON = 'f0 71 23 84';
+const POWER_OFF = '0f 71 24 a4';
+const ACKNOWLEDGEMENT = '0f 10 00 1f';
+const CLOCK = 'f0 11 14 1a 0a 13 0c 1e 00 07 00 7d';
+const STATE_FRAME = 'state: ' + STATE.replace(/ /g, '');
+
+describe('FrameAssembler', () => {
+  let assembler: FrameAssembler;
+
+  beforeEach(() => {
+    assembler = new FrameAssembler();
+  });
+
+  function push(...segments: string[]) {
+    return describeFrames(segments.reduce((frames, segment) => [...frames, ...assembler.push(fromHex(segment))], [] as IFrame[]));
+  }
+
+  it('returns a complete frame', () => {
+    assert.deepStrictEqual(push(STATE), [STATE_FRAME]);
+    assert.strictEqual(assembler.discardedBytes, 0);
+  });
+
+  it('recognizes every frame type', () => {
+    assert.deepStrictEqual(push(POWER_ON, POWER_OFF, ACKNOWLEDGEMENT, CLOCK).map(frame => frame.split(':')[0]),
+      [FrameTypes.power, FrameTypes.power, FrameTypes.acknowledgement, FrameTypes.clock]);
+  });
+
+  it('waits for a frame split over several segments', () => {
+    assert.deepStrictEqual(assembler.push(fromHex('81 35 23 61')), []);
+    assert.deepStrictEqual(assembler.push(fromHex('21 01 ff 00 00 00')), []);
+    assert.deepStrictEqual(push('08 00 f0 53'), [STATE_FRAME]);
+    assert.strictEqual(assembler.discardedBytes, 0);
+  });
+
+  it('waits for a header split between segments', () => {
+    assert.deepStrictEqual(assembler.push(fromHex('f0')), []);
+    assert.deepStrictEqual(push('71 23 84'), ['power: f0712384']);
+  });
+
+  it('splits frames which arrive together', () => {
+    assert.deepStrictEqual(push(`${POWER_ON} ${STATE} ${ACKNOWLEDGEMENT}`), [
+      'power: f0712384',
+      STATE_FRAME,
+      'acknowledgement: 0f10001f',
+    ]);
+  });
+
+  it('keeps the start of the next frame for the next segment', () => {
+    assert.deepStrictEqual(push(`${POWER_ON} 81 35 23`), ['power: f0712384']);
+    assert.deepStrictEqual(push('61 21 01 ff 00 00 00 08 00 f0 53'), [STATE_FRAME]);
+  });
+
+  it('drops junk bytes before and between frames', () => {
+    assert.deepStrictEqual(push(`00 ff 12 ${POWER_ON} 55 ${POWER_OFF}`), ['power: f0712384', 'power: 0f7124a4']);
+    assert.strictEqual(assembler.discardedBytes, 4);
+  });
+
+  it('drops a frame with a bad checksum and finds the next one', () => {
+    assert.deepStrictEqual(push(`81 35 23 61 21 01 ff 00 00 00 08 00 f0 54 ${POWER_ON}`), ['power: f0712384']);
+    assert.strictEqual(assembler.discardedBytes, 14);
+  });
+
+  it('forgets a partial frame on reset', () => {
+    assembler.push(fromHex('81 35 23 61'));
+    assembler.reset();
+    assert.deepStrictEqual(push(POWER_ON), ['power: f0712384']);
+  });
+});
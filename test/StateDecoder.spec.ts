@@ -0,0 +1,131 @@
+import assert from 'assert';
+import { decodeStateResponse, isPresetPattern, isSameLightState, isValidStateResponse } from '../src/magichome-interface/StateDecoder';
+import { OperatingModes } from '../src/magichome-interface/types';
+
+function fromHex(hex: string): Buffer {
+  return Buffer.from(hex.replace(/ /g, ''), 'hex');
+}
+
+// 0x81 state responses, checksum included
+const fixtures = {
+  rgbwwBulbRed: '81 35 23 61 21 01 ff 00 00 00 08 00 f0 53',
+  rgbwwBulbWhite: '81 35 23 61 21 01 00 00 00 ff 08 80 0f f2',
+  rgbwwStripColorAndWhite: '81 07 23 61 21 01 00 ff 00 80 07 40 ff f3',
+  grbStripOff: '81 33 24 61 21 01 00 00 ff 00 04 00 00 5e',
+  rgbwBulbPreset: '81 44 23 25 21 10 00 00 00 00 06 00 00 44',
+  rgbStripCustom: '81 a1 23 60 21 05 00 00 00 00 0a 00 00 d5',
+  rgbStripMusicFromRemote: '81 a1 23 62 23 01 10 20 30 00 0a 00 f0 25',
+  rgbwStripLegacy: '81 04 23 41 21 1f 12 34 56 78 03 00 ff 3f',
+};
+
+describe('StateDecoder', () => {
+  describe('isValidStateResponse', () => {
+    it('accepts every fixture', () => {
+      for (const hex of Object.values(fixtures)) {
+        assert.ok(isValidStateResponse(fromHex(hex)), hex);
+      }
+    });
+
+    it('rejects a bad checksum', () => {
+      assert.strictEqual(isValidStateResponse(fromHex('81 35 23 61 21 01 ff 00 00 00 08 00 f0 54')), false);
+    });
+
+    it('rejects a frame with another header', () => {
+      assert.strictEqual(isValidStateResponse(fromHex('f0 35 23 61 21 01 ff 00 00 00 08 00 f0 c2')), false);
+    });
+
+    it('rejects a short frame', () => {
+      assert.strictEqual(isValidStateResponse(fromHex('81 35 23 61 21 01 ff 00 00 00 08 00 f0')), false);
+      assert.strictEqual(isValidStateResponse(Buffer.alloc(0)), false);
+      assert.strictEqual(isValidStateResponse(null), false);
+    });
+  });
+
+  describe('decodeStateResponse', () => {
+    it('decodes a static color', () => {
+      const state = decodeStateResponse(fromHex(fixtures.rgbwwBulbRed));
+      assert.deepStrictEqual({ ...state, debugBuffer: undefined }, {
+        debugBuffer: undefined,
+        controllerHardwareVersion: 0x35,
+        controllerFirmwareVersion: 0x08,
+        isOn: true,
+        operatingMode: OperatingModes.color,
+        presetPattern: null,
+        effectSpeed: 100,
+        remoteOverride: false,
+        RGB: { red: 255, green: 0, blue: 0 },
+        whiteValues: { warmWhite: 0, coldWhite: 0 },
+      });
+    });
+
+    it('decodes the white channels and the color mode', () => {
+      const white = decodeStateResponse(fromHex(fixtures.rgbwwBulbWhite));
+      assert.strictEqual(white.operatingMode, OperatingModes.white);
+      assert.deepStrictEqual(white.whiteValues, { warmWhite: 255, coldWhite: 128 });
+
+      const both = decodeStateResponse(fromHex(fixtures.rgbwwStripColorAndWhite));
+      assert.strictEqual(both.operatingMode, OperatingModes.colorAndWhite);
+      assert.deepStrictEqual(both.RGB, { red: 0, green: 255, blue: 0 });
+      assert.deepStrictEqual(both.whiteValues, { warmWhite: 128, coldWhite: 64 });
+    });
+
+    it('decodes a light which is off and firmware without a color mode', () => {
+      const state = decodeStateResponse(fromHex(fixtures.grbStripOff));
+      assert.strictEqual(state.isOn, false);
+      assert.strictEqual(state.operatingMode, OperatingModes.unknown);
+      assert.deepStrictEqual(state.RGB, { red: 0, green: 0, blue: 255 });
+    });
+
+    it('decodes a preset pattern and its speed', () => {
+      const state = decodeStateResponse(fromHex(fixtures.rgbwBulbPreset));
+      assert.strictEqual(state.operatingMode, OperatingModes.preset);
+      assert.strictEqual(state.presetPattern, 0x25);
+      assert.strictEqual(state.effectSpeed, 50);
+    });
+
+    it('decodes custom and music modes', () => {
+      const custom = decodeStateResponse(fromHex(fixtures.rgbStripCustom));
+      assert.strictEqual(custom.operatingMode, OperatingModes.custom);
+      assert.strictEqual(custom.presetPattern, null);
+      assert.strictEqual(custom.effectSpeed, 87);
+
+      const music = decodeStateResponse(fromHex(fixtures.rgbStripMusicFromRemote));
+      assert.strictEqual(music.operatingMode, OperatingModes.music);
+      assert.strictEqual(music.remoteOverride, true);
+    });
+
+    it('decodes the static pattern of older firmware', () => {
+      const state = decodeStateResponse(fromHex(fixtures.rgbwStripLegacy));
+      assert.strictEqual(state.operatingMode, OperatingModes.colorAndWhite);
+      assert.strictEqual(state.effectSpeed, 0);
+      assert.deepStrictEqual(state.RGB, { red: 0x12, green: 0x34, blue: 0x56 });
+      assert.deepStrictEqual(state.whiteValues, { warmWhite: 0x78, coldWhite: 0 });
+    });
+
+    it('ignores bytes after the frame', () => {
+      const state = decodeStateResponse(fromHex(fixtures.rgbwwBulbRed + ' 81 35'));
+      assert.strictEqual(state.debugBuffer.toString('hex'), fixtures.rgbwwBulbRed.replace(/ /g, ''));
+    });
+
+    it('returns null for an invalid frame', () => {
+      assert.strictEqual(decodeStateResponse(fromHex('81 35 23 61 21 01 ff 00 00 00 08 00 f0 54')), null);
+    });
+  });
+
+  describe('isPresetPattern', () => {
+    it('covers 0x25 to 0x38', () => {
+      assert.deepStrictEqual([0x24, 0x25, 0x38, 0x39].map(isPresetPattern), [false, true, true, false]);
+    });
+  });
+
+  describe('isSameLightState', () => {
+    it('compares what homekit shows and ignores the raw frame', () => {
+      const a = decodeStateResponse(fromHex(fixtures.rgbwwBulbRed));
+      const b = { ...decodeStateResponse(fromHex(fixtures.rgbwwBulbRed)), debugBuffer: Buffer.alloc(0), controllerFirmwareVersion: 9 };
+      assert.ok(isSameLightState(a, b));
+      assert.ok(!isSameLightState(a, decodeStateResponse(fromHex(fixtures.rgbwwBulbWhite))));
+      assert.ok(!isSameLightState(a, null));
+      assert.ok(isSameLightState(null, null));
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import assert from 'assert';
+import { Characteristic, Service } from 'hap-nodejs';
+import { disconnectAll } from '../src/magichome-interface/Transport';
+import { lightTypesMap } from '../src/magichome-interface/LightMap';
+import { accessoryClasses, CharacteristicType, createAccessory, createConfig, createDevice } from './helpers/accessory';
+import { createState } from './helpers/platform';
+
+const RED: [CharacteristicType, number][] = [[Characteristic.Hue, 0], [Characteristic.Saturation, 100]];
+
+// a fresh address per accessory, transports are shared per host
+let lastOctet = 0;
+function nextAddress() {
+  return `10.0.0.${++lastOctet}`;
+}
+
+async function framesFor(hardwareVersion: number, values: [CharacteristicType, number | boolean][], firmwareVersion = 1) {
+  const { recording, set } = createAccessory(createDevice(hardwareVersion, firmwareVersion, nextAddress()));
+  assert.deepStrictEqual(await set(values), values.map(() => null));
+  return recording.frames;
+}
+
+describe('accessories', () => {
+  afterEach(() => disconnectAll());
+
+  describe('light map', () => {
+    for (const [hardwareVersion, { controllerLogicType }] of lightTypesMap) {
+      it(`builds a ${controllerLogicType} for hardware 0x${hardwareVersion.toString(16)}`, () => {
+        const { handler, accessory } = createAccessory(createDevice(hardwareVersion, 1, nextAddress()));
+        assert.ok(handler instanceof accessoryClasses[controllerLogicType]);
+        const serviceType = lightTypesMap.get(hardwareVersion).hasBrightness ? Service.Lightbulb : Service.Switch;
+        assert.ok(accessory.getService(serviceType));
+      });
+    }
+  });
+
+  describe('color frames', () => {
+    const goldenRed = {
+      RGBStrip: [0xa1, '31 ff 00 00 00 f0 0f 2f'],
+      GRBStrip: [0x33, '31 ff 00 00 00 f0 0f 2f'],
+      RGBWBulb: [0x44, '31 ff 00 00 00 f0 0f 2f'],
+      RGBWStrip: [0x04, '31 ff 00 00 00 ff 0f 3e'],
+      RGBWWBulb: [0x35, '31 ff 00 00 00 00 f0 0f 2f'],
+      RGBWWStrip: [0x07, '31 ff 00 00 00 00 ff 0f 3e'],
+    };
+    for (const [name, [hardwareVersion, frame]] of Object.entries(goldenRed)) {
+      it(`${name} sends full red with its mask and checksum`, async () => {
+        assert.deepStrictEqual(await framesFor(hardwareVersion as number, RED), [frame]);
+      });
+    }
+
+    it('scales the color by brightness', async () => {
+      assert.deepStrictEqual(await framesFor(0xa1, [[Characteristic.Brightness, 50]]), ['31 20 00 7f 00 f0 0f cf']);
+    });
+
+    it('DimmerStrip sends its brightness in the red channel of a dimmer frame', async () => {
+      assert.deepStrictEqual(await framesFor(0x21, [[Characteristic.Brightness, 50]]), ['31 7d 00 00 03 01 0f c1']);
+    });
+
+    it('CCTStrip mixes the whites by color temperature', async () => {
+      assert.deepStrictEqual(await framesFor(0x09, [[Characteristic.ColorTemperature, 500], [Characteristic.Brightness, 50]]),
+        ['31 00 00 00 40 00 ff 0f 7f']);
+      assert.deepStrictEqual(await framesFor(0x09, [[Characteristic.ColorTemperature, 140], [Characteristic.Brightness, 50]]),
+        ['31 00 00 00 00 40 ff 0f 7f']);
+    });
+  });
+
+  describe('failures', () => {
+    for (const [name, hardwareVersion] of Object.entries({ RGBStrip: 0xa1, DimmerStrip: 0x21, CCTStrip: 0x09 })) {
+      it(`${name} reports a color frame the device doesn't take`, async () => {
+        const { recording, set } = createAccessory(createDevice(hardwareVersion, 1, nextAddress()));
+        recording.transport.request = async () => null;
+        const [error] = await set([[Characteristic.Brightness, 50]]);
+        assert.ok(error instanceof Error);
+      });
+    }
+  });
+
+  describe('white thresholds', () => {
+    // colorWhiteThreshold 10, colorWhiteThresholdSimultaniousDevices 50, colorOffThresholdSimultaniousDevices 5
+    it('RGBWBulb switches to warm white below colorWhiteThreshold', async () => {
+      assert.deepStrictEqual(await framesFor(0x44, [[Characteristic.Hue, 120], [Characteristic.Saturation, 5]]), ['31 00 00 00 ff 0f 0f 4e']);
+      assert.deepStrictEqual(await framesFor(0x44, [[Characteristic.Hue, 120], [Characteristic.Saturation, 30]]), ['31 59 a6 59 00 f0 0f 88']);
+    });
+
+    it('RGBWWBulb mixes the whites by hue below colorWhiteThreshold', async () => {
+      assert.deepStrictEqual(await framesFor(0x35, [[Characteristic.Hue, 120], [Characteristic.Saturation, 5]]), ['31 00 00 00 aa ff 0f 0f f8']);
+      assert.deepStrictEqual(await framesFor(0x35, [[Characteristic.Hue, 120], [Characteristic.Saturation, 30]]), ['31 59 a6 59 00 00 f0 0f 88']);
+    });
+
+    it('RGBWStrip turns the color off below colorOffThresholdSimultaniousDevices', async () => {
+      assert.deepStrictEqual(await framesFor(0x04, [[Characteristic.Hue, 120], [Characteristic.Saturation, 4]]), ['31 00 00 00 ff ff 0f 3e']);
+    });
+
+    it('RGBWStrip adds warm white to a saturated color below colorWhiteThresholdSimultaniousDevices', async () => {
+      assert.deepStrictEqual(await framesFor(0x04, [[Characteristic.Hue, 120], [Characteristic.Saturation, 30]]), ['31 00 ff 00 ff ff 0f 3d']);
+      assert.deepStrictEqual(await framesFor(0x04, [[Characteristic.Hue, 120], [Characteristic.Saturation, 60]]), ['31 33 cc 33 00 ff 0f 71']);
+    });
+
+    it('RGBWWStrip mixes the whites by hue below colorOffThresholdSimultaniousDevices', async () => {
+      assert.deepStrictEqual(await framesFor(0x07, [[Characteristic.Hue, 120], [Characteristic.Saturation, 4]]), ['31 00 00 00 aa ff ff 0f e8']);
+      assert.deepStrictEqual(await framesFor(0x07, [[Characteristic.Hue, 120], [Characteristic.Saturation, 30]]), ['31 00 ff 00 aa ff ff 0f e7']);
+      assert.deepStrictEqual(await framesFor(0x07, [[Characteristic.Hue, 120], [Characteristic.Saturation, 60]]), ['31 33 cc 33 00 00 ff 0f 71']);
+    });
+
+    it('ignores the simultaneous thresholds when simultaniousDevicesColorWhite is off', async () => {
+      const config = createConfig({ whiteEffects: { ...createConfig().whiteEffects, simultaniousDevicesColorWhite: false } });
+      const { recording, set } = createAccessory(createDevice(0x04, 1, nextAddress()), config);
+      await set([[Characteristic.Hue, 120], [Characteristic.Saturation, 30]]);
+      assert.deepStrictEqual(recording.frames, ['31 59 a6 59 00 ff 0f 97']);
+    });
+  });
+
+  describe('white presets', () => {
+    // hue 31 / saturation 33 and hue 208 / saturation 17 are the warm and cold white swatches of the Home app
+    const golden = {
+      RGBWBulb: [0x44, '31 00 00 00 ff 0f 0f 4e', '31 00 00 00 ff 0f 0f 4e'],
+      RGBWStrip: [0x04, '31 00 00 00 ff ff 0f 3e', '31 00 00 00 ff ff 0f 3e'],
+      RGBWWBulb: [0x35, '31 00 00 00 ff 00 0f 0f 4e', '31 00 00 00 00 ff 0f 0f 4e'],
+      RGBWWStrip: [0x07, '31 00 00 00 ff 00 0f 0f 4e', '31 00 00 00 00 ff 0f 0f 4e'],
+      RGBStrip: [0xa1, '31 aa 81 55 00 f0 0f b0', '31 6a 81 95 00 f0 0f b0'],
+    };
+    for (const [name, [hardwareVersion, warm, cold]] of Object.entries(golden)) {
+      it(`${name} renders warm and cold white`, async () => {
+        assert.deepStrictEqual(await framesFor(hardwareVersion as number, [[Characteristic.Hue, 31], [Characteristic.Saturation, 33]]), [warm]);
+        assert.deepStrictEqual(await framesFor(hardwareVersion as number, [[Characteristic.Hue, 208], [Characteristic.Saturation, 17]]), [cold]);
+      });
+    }
+  });
+
+  describe('power', () => {
+    it('sends power on and off', async () => {
+      assert.deepStrictEqual(await framesFor(0x93, [[Characteristic.On, true]]), ['71 23 0f a3']);
+      assert.deepStrictEqual(await framesFor(0x93, [[Characteristic.On, false]]), ['71 24 0f a4']);
+    });
+
+    it('sends power on and color together in that order', async () => {
+      assert.deepStrictEqual(await framesFor(0xa1, [[Characteristic.On, true], ...RED]), ['71 23 0f a3', '31 ff 00 00 00 f0 0f 2f']);
+    });
+
+    it('only sends power off when color changes with it', async () => {
+      assert.deepStrictEqual(await framesFor(0xa1, [[Characteristic.On, false], ...RED]), ['71 24 0f a4']);
+    });
+
+    it('powers on before every color on firmware that needs it', async () => {
+      assert.deepStrictEqual(await framesFor(0xa1, RED, 2), ['71 23 0f a3', '31 ff 00 00 00 f0 0f 2f']);
+      assert.deepStrictEqual(await framesFor(0x07, RED, 2), ['71 23 0f a3', '31 ff 00 00 00 00 ff 0f 3e']);
+    });
+  });
+
+  describe('write verification', () => {
+    // milliseconds from setting red until the state is read back
+    async function readbackDelay(writeVerification: Record<string, unknown>) {
+      const { recording, set } = createAccessory(createDevice(0xa1, 1, nextAddress()), createConfig({ writeVerification }));
+      let readAt: number;
+      recording.transport.getState = async () => {
+        readAt = Date.now();
+        return createState(0xa1);
+      };
+      const setAt = Date.now();
+      assert.deepStrictEqual(await set(RED), [null, null]);
+      assert.deepStrictEqual(recording.frames, ['31 ff 00 00 00 f0 0f 2f']);
+      return readAt - setAt;
+    }
+
+    it('gives the device settleDelay to apply a write before reading it back', async () => {
+      assert.ok(await readbackDelay({ enabled: true, settleDelay: 150 }) >= 145);
+    });
+
+    it('takes settleDelay per device', async () => {
+      const devices = [{ uniqueId: 'ACCF230000A1', settleDelay: 0 }];
+      assert.ok(await readbackDelay({ enabled: true, settleDelay: 5000, devices }) < 1000);
+    });
+  });
+
+  describe('effects', () => {
+    const config = createConfig({ effects: { presetPatterns: ['sevenColorCrossFade'] } });
+
+    it('exposes a preset pattern as a fan and starts it', async () => {
+      const { recording, service, set } = createAccessory(createDevice(0xa1, 1, nextAddress()), config);
+      const fan = service(Service.Fan, 'preset-sevenColorCrossFade');
+      assert.ok(fan);
+      assert.deepStrictEqual(await set([[Characteristic.On, true]], fan), [null]);
+      assert.deepStrictEqual(recording.frames, ['71 23 0f a3', '61 25 10 0f a5']);
+    });
+
+    it('exposes no effects on a device without color', () => {
+      const { service } = createAccessory(createDevice(0x93, 1, nextAddress()), config);
+      assert.strictEqual(service(Service.Fan, 'preset-sevenColorCrossFade'), undefined);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { Characteristic, Service, WithUUID } from 'hap-nodejs';
+import type { CharacteristicValue, PlatformConfig } from 'homebridge';
+import { HomebridgeMagichomeDynamicPlatform } from '../../src/platform';
+import { HomebridgeMagichomeDynamicPlatformAccessory } from '../../src/platformAccessory';
+import { lightTypesMap } from '../../src/magichome-interface/LightMap';
+import { IDeviceProps, MagicHomeAccessory } from '../../src/magichome-interface/types';
+import { Switch } from '../../src/accessories/Switch';
+import { DimmerStrip } from '../../src/accessories/DimmerStrip';
+import { RGBStrip } from '../../src/accessories/RGBStrip';
+import { GRBStrip } from '../../src/accessories/GRBStrip';
+import { RGBWBulb } from '../../src/accessories/RGBWBulb';
+import { RGBWWBulb } from '../../src/accessories/RGBWWBulb';
+import { RGBWStrip } from '../../src/accessories/RGBWStrip';
+import { RGBWWStrip } from '../../src/accessories/RGBWWStrip';
+import { CCTStrip } from '../../src/accessories/CCTStrip';
+import { FakePlatformAccessory, createLogs } from './homebridge';
+import { IRecordingTransport, recordTransport } from './transport';
+
+export const accessoryClasses = { Switch, DimmerStrip, RGBStrip, GRBStrip, RGBWBulb, RGBWWBulb, RGBWStrip, RGBWWStrip, CCTStrip };
+
+// the white thresholds of the example config in .homebridge-dev
+export function createConfig(overrides: Record<string, any> = {}): PlatformConfig {
+  return {
+    platform: 'homebridge-magichome-dynamic-platform',
+    whiteEffects: {
+      simultaniousDevicesColorWhite: true,
+      colorWhiteThreshold: 10,
+      colorWhiteThresholdSimultaniousDevices: 50,
+      colorOffThresholdSimultaniousDevices: 5,
+    },
+    advancedOptions: { listenForDeviceUpdates: false },
+    ...overrides,
+  };
+}
+
+export function createDevice(hardwareVersion: number, firmwareVersion = 1, ipAddress = '10.0.0.1'): IDeviceProps {
+  const uniqueId = 'ACCF2300' + hardwareVersion.toString(16).padStart(4, '0').toUpperCase();
+  const lightParameters = { ...lightTypesMap.get(hardwareVersion) };
+  return {
+    UUID: uniqueId,
+    cachedIPAddress: ipAddress,
+    restartsSinceSeen: 0,
+    displayName: lightParameters.convenientName,
+    ipAddress,
+    uniqueId,
+    modelNumber: 'AK001-ZJ2101',
+    lightParameters,
+    controllerHardwareVersion: hardwareVersion,
+    controllerFirmwareVersion: firmwareVersion,
+    lastKnownState: null,
+  };
+}
+
+export type CharacteristicType = Parameters<Service['getCharacteristic']>[0];
+
+export interface ITestAccessory {
+  handler: HomebridgeMagichomeDynamicPlatformAccessory;
+  accessory: FakePlatformAccessory;
+  recording: IRecordingTransport;
+  service(type: WithUUID<typeof Service>, subtype?: string): Service;
+  set(values: [CharacteristicType, CharacteristicValue][], service?: Service): Promise<Error[]>;
+}
+
+/**
+ * Builds the accessory class the light map assigns to the hardware version, against a mocked platform and
+ * a recording transport. Nothing touches the network.
+ */
+export function createAccessory(device: IDeviceProps, config = createConfig()): ITestAccessory {
+  createLogs();
+  const recording = recordTransport(device.cachedIPAddress, config, device.uniqueId);
+  const accessory = new FakePlatformAccessory(device.displayName, device.UUID);
+  accessory.context.device = device;
+
+  const platform = {
+    Service,
+    Characteristic,
+    api: { updatePlatformAccessories: () => undefined },
+    statePoller: { register: () => false },
+    locateDevice: async () => null,
+  } as unknown as HomebridgeMagichomeDynamicPlatform;
+
+  const handler = new accessoryClasses[device.lightParameters.controllerLogicType](
+    platform, accessory as unknown as MagicHomeAccessory, config);
+
+  const service = (type: WithUUID<typeof Service>, subtype?: string) => subtype ? accessory.getServiceById(type, subtype) : accessory.getService(type);
+
+  // characteristics set side by side, the way the Home app sends one change
+  const primary = accessory.getService(Service.Lightbulb) ?? accessory.services.find(service => service.UUID === Service.Switch.UUID && !service.subtype);
+  const set = (values: [CharacteristicType, CharacteristicValue][], target = primary) => Promise.all(
+    values.map(([type, value]) => new Promise<Error>((resolve) => {
+      target.getCharacteristic(type).emit('set', value, (error?: Error) => resolve(error ?? null));
+    })),
+  );
+
+  return { handler, accessory, recording, service, set };
+}
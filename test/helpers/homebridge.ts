@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import { Characteristic, Service, uuid, WithUUID } from 'hap-nodejs';
+import { APIEvent } from 'homebridge';
+import type { Logger } from 'homebridge';
+import { Logs } from '../../src/logs';
+
+type ServiceType = WithUUID<typeof Service>;
+
+function matchesType(service: Service, type: string | ServiceType): boolean {
+  return typeof type === 'string' ? service.UUID === type : service instanceof type || service.UUID === type.UUID;
+}
+
+/**
+ * Stand-in for homebridge's PlatformAccessory, holding real hap services so characteristic
+ * handlers run exactly as they do under homebridge.
+ */
+export class FakePlatformAccessory {
+  public context: Record<string, any> = {};
+  public services: Service[] = [new Service.AccessoryInformation()];
+
+  constructor(
+    public displayName: string,
+    public UUID: string,
+  ) {}
+
+  addService(service: Service | ServiceType, ...constructorArgs: any[]): Service {
+    const added: Service = typeof service === 'function' ? new (service as any)(...constructorArgs) : service;
+    // hap refuses duplicates as well, the plugin must never try
+    if (this.services.some(existing => existing.UUID === added.UUID && existing.subtype === added.subtype)) {
+      throw new Error(`Cannot add a service with the same UUID ${added.UUID} and subtype ${added.subtype} twice`);
+    }
+    this.services.push(added);
+    return added;
+  }
+
+  removeService(service: Service) {
+    const index = this.services.indexOf(service);
+    if (index !== -1) {
+      this.services.splice(index, 1);
+    }
+  }
+
+  getService(name: string | ServiceType): Service | undefined {
+    return this.services.find(service => typeof name === 'string'
+      ? service.displayName === name || service.subtype === name
+      : matchesType(service, name));
+  }
+
+  getServiceById(type: string | ServiceType, subtype: string): Service | undefined {
+    return this.services.find(service => matchesType(service, type) && service.subtype === subtype);
+  }
+}
+
+/**
+ * Stand-in for homebridge's API with the parts the platform uses. Accessories handed to it are recorded
+ * instead of being published, launch() and shutdown() fire the lifecycle events homebridge would.
+ */
+export class FakeHomebridgeAPI extends EventEmitter {
+  public readonly hap = { uuid, Service, Characteristic };
+  public readonly platformAccessory = FakePlatformAccessory;
+  public readonly registered: FakePlatformAccessory[] = [];
+  public readonly unregistered: FakePlatformAccessory[] = [];
+  public readonly updated: FakePlatformAccessory[] = [];
+
+  registerPlatformAccessories(_pluginName: string, _platformName: string, accessories: FakePlatformAccessory[]) {
+    for (const accessory of accessories) {
+      if (this.registered.some(registered => registered.UUID === accessory.UUID)) {
+        throw new Error(`Cannot register accessory ${accessory.UUID} twice`);
+      }
+      this.registered.push(accessory);
+    }
+  }
+
+  unregisterPlatformAccessories(_pluginName: string, _platformName: string, accessories: FakePlatformAccessory[]) {
+    for (const accessory of accessories) {
+      const index = this.registered.indexOf(accessory);
+      if (index !== -1) {
+        this.registered.splice(index, 1);
+      }
+      this.unregistered.push(accessory);
+    }
+  }
+
+  updatePlatformAccessories(accessories: FakePlatformAccessory[]) {
+    this.updated.push(...accessories);
+  }
+
+  launch() {
+    this.emit(APIEvent.DID_FINISH_LAUNCHING);
+  }
+
+  shutdown() {
+    this.emit(APIEvent.SHUTDOWN);
+  }
+}
+
+/**
+ * A homebridge logger collecting its messages instead of printing them.
+ */
+export function createLogger(): { logger: Logger; messages: string[] } {
+  const messages: string[] = [];
+  const record = (message: string) => {
+    messages.push(message);
+  };
+  const logger = { info: record, warn: record, error: record, debug: record } as unknown as Logger;
+  return { logger, messages };
+}
+
+/**
+ * Logs collected instead of printed, level 4 includes debug messages.
+ */
+export function createLogs(level = 4): { logs: Logs; messages: string[] } {
+  const { logger, messages } = createLogger();
+  return { logs: new Logs(logger, level), messages };
+}
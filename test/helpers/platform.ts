@@ -0,0 +1,110 @@
+import type { API, PlatformConfig } from 'homebridge';
+import { HomebridgeMagichomeDynamicPlatform } from '../../src/platform';
+import { getDiscover } from '../../src/magichome-interface/Discover';
+import { IDeviceDiscoveredProps, ILightState, MagicHomeAccessory, OperatingModes } from '../../src/magichome-interface/types';
+import { createConfig } from './accessory';
+import { FakeHomebridgeAPI, FakePlatformAccessory, createLogger } from './homebridge';
+import { IRecordingTransport, recordTransport } from './transport';
+
+export function createPlatformConfig(overrides: Record<string, any> = {}): PlatformConfig {
+  return createConfig({
+    pruning: { pruneMissingCachedAccessories: false, restartsBeforeMissingAccessoriesPruned: 3, pruneAllAccessoriesNextRestart: false },
+    deviceManagement: { blacklistOrWhitelist: 'blacklist', blacklistedUniqueIDs: [] },
+    advancedOptions: { listenForDeviceUpdates: false, logLevel: 4 },
+    wifiDiagnostics: { enabled: false },
+    clockSync: { enabled: false },
+    statePolling: { enabled: false },
+    ...overrides,
+  });
+}
+
+// a red light which is on, the way StateDecoder reports it
+export function createState(hardwareVersion: number, firmwareVersion = 1): ILightState {
+  return {
+    isOn: true,
+    RGB: { red: 255, green: 0, blue: 0 },
+    HSL: { hue: 0, saturation: 100, luminance: 50 },
+    whiteValues: { warmWhite: 0, coldWhite: 0 },
+    operatingMode: OperatingModes.color,
+    controllerHardwareVersion: hardwareVersion,
+    controllerFirmwareVersion: firmwareVersion,
+  };
+}
+
+export interface ITestPlatform {
+  platform: HomebridgeMagichomeDynamicPlatform;
+  api: FakeHomebridgeAPI;
+  config: PlatformConfig;
+  messages: string[];
+  // what a broadcast scan finds
+  network: IDeviceDiscoveredProps[];
+  // the transports of the devices on the network, by address
+  recordings: Map<string, IRecordingTransport>;
+  connect(hardwareVersion: number, ipAddress: string, uniqueId?: string): IDeviceDiscoveredProps;
+  move(device: IDeviceDiscoveredProps, ipAddress: string): void;
+  setOnline(device: IDeviceDiscoveredProps, online: boolean): void;
+  restore(accessory: FakePlatformAccessory): void;
+}
+
+/**
+ * The platform against a fake homebridge API and a simulated network: discovery answers from network and
+ * every device gets a recording transport answering its state. Nothing touches the network.
+ */
+export function createPlatform(config = createPlatformConfig()): ITestPlatform {
+  const api = new FakeHomebridgeAPI();
+  const { logger, messages } = createLogger();
+  const platform = new HomebridgeMagichomeDynamicPlatform(logger, config, api as unknown as API);
+  const network: IDeviceDiscoveredProps[] = [];
+  const recordings: Map<string, IRecordingTransport> = new Map();
+
+  const discover = getDiscover(null, config);
+  const find = (predicate: (device: IDeviceDiscoveredProps) => boolean) => {
+    const device = network.find(predicate);
+    return device ? { ...device } : null;
+  };
+  discover.scan = async () => network.map(device => ({ ...device }));
+  discover.queryHost = async (host: string) => find(device => device.ipAddress === host);
+  discover.findDevice = async (uniqueId: string) => find(device => device.uniqueId === uniqueId);
+
+  // the state of every device, by unique id, answered while the device is online
+  const states: Map<string, ILightState> = new Map();
+  const isOnline = (device: IDeviceDiscoveredProps) => network.includes(device);
+
+  const answer = (device: IDeviceDiscoveredProps) => {
+    const recording = recordings.get(device.ipAddress) ?? recordTransport(device.ipAddress, config, device.uniqueId);
+    recording.state = isOnline(device) ? states.get(device.uniqueId) : null;
+    recordings.set(device.ipAddress, recording);
+  };
+
+  const connect = (hardwareVersion: number, ipAddress: string, uniqueId = 'ACCF2300' + ipAddress.split('.').pop().padStart(4, '0')) => {
+    const device = { ipAddress, uniqueId, modelNumber: 'AK001-ZJ2101' };
+    states.set(uniqueId, createState(hardwareVersion));
+    network.push(device);
+    answer(device);
+    return device;
+  };
+
+  const move = (device: IDeviceDiscoveredProps, ipAddress: string) => {
+    recordings.get(device.ipAddress).state = null;
+    device.ipAddress = ipAddress;
+    answer(device);
+  };
+
+  // a device which is switched off answers neither discovery nor state queries
+  const setOnline = (device: IDeviceDiscoveredProps, online: boolean) => {
+    if (online && !isOnline(device)) {
+      network.push(device);
+    } else if (!online && isOnline(device)) {
+      network.splice(network.indexOf(device), 1);
+    }
+    answer(device);
+  };
+
+  // what homebridge does with every cached accessory before DID_FINISH_LAUNCHING
+  const restore = (accessory: FakePlatformAccessory) => {
+    api.registered.push(accessory);
+    platform.configureAccessory(accessory as unknown as MagicHomeAccessory);
+  };
+
+  return { platform, api, config, messages, network, recordings, connect, move, setOnline, restore };
+}
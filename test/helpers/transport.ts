@@ -0,0 +1,41 @@
+import type net from 'net';
+import type { PlatformConfig } from 'homebridge';
+import { getTransport, Transport } from '../../src/magichome-interface/Transport';
+import { ILightState } from '../../src/magichome-interface/types';
+
+export interface IRecordingTransport {
+  transport: Transport;
+  // every payload written to the device as spaced hex, checksum included
+  frames: string[];
+  // answer to state queries, null for a device which doesn't answer
+  state: ILightState | null;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex').replace(/(..)(?!$)/g, '$1 ');
+}
+
+/**
+ * Replaces the socket of the shared transport for a host, so requests go through the real retry, queue and
+ * checksum code and land in frames. Must be called before anything else asks for the transport.
+ */
+export function recordTransport(host: string, config: PlatformConfig, uniqueId: string = null): IRecordingTransport {
+  const transport = getTransport(host, config, uniqueId);
+  const recording: IRecordingTransport = { transport, frames: [], state: null };
+
+  transport.socket = {
+    write: (payload: Buffer) => {
+      recording.frames.push(toHex(payload));
+      return true;
+    },
+    end: () => undefined,
+    destroy: () => undefined,
+  } as unknown as net.Socket;
+  transport.connect = async (fn: () => Promise<unknown>) => fn();
+  transport.read = async () => null;
+  transport.listen = () => undefined;
+  transport.getState = async () => recording.state;
+  transport.getTimers = async () => null;
+  transport.getClock = async () => null;
+  return recording;
+}
@@ -0,0 +1,363 @@
+import assert from 'assert';
+import { uuid } from 'hap-nodejs';
+import { getDiscover } from '../src/magichome-interface/Discover';
+import { lightTypesMap } from '../src/magichome-interface/LightMap';
+import { sleep } from '../src/magichome-interface/utils';
+import { FakePlatformAccessory } from './helpers/homebridge';
+import { ITestPlatform, createPlatform, createPlatformConfig } from './helpers/platform';
+
+let current: ITestPlatform = null;
+
+function uuids(accessories: { UUID: string }[]) {
+  return accessories.map(accessory => accessory.UUID);
+}
+
+function start(config = createPlatformConfig()) {
+  current = createPlatform(config);
+  return current;
+}
+
+// homebridge restarted, the accessories registered before come back from its cache
+function restart(previous: ITestPlatform, config = previous.config) {
+  previous.api.shutdown();
+  const next = start(config);
+  for (const accessory of previous.api.registered.splice(0)) {
+    next.restore(accessory);
+  }
+  return next;
+}
+
+// a cached accessory as it was saved before v1.8.6, without hardware and firmware versions
+function createOutdatedAccessory(uniqueId: string, ipAddress: string) {
+  const accessory = new FakePlatformAccessory('RGB Strip', uuid.generate(uniqueId));
+  accessory.context.device = {
+    UUID: accessory.UUID,
+    cachedIPAddress: ipAddress,
+    restartsSinceSeen: 0,
+    displayName: 'RGB Strip',
+    ipAddress,
+    uniqueId,
+    lightParameters: { controllerLogicType: 'RGBStrip', convenientName: 'RGB Strip' },
+  };
+  return accessory;
+}
+
+describe('platform', () => {
+  afterEach(() => {
+    current?.api.shutdown();
+    current = null;
+  });
+
+  describe('new devices', () => {
+    it('registers a new device with the accessory its hardware version maps to', async () => {
+      const { platform, api, connect } = start();
+      const device = connect(0x35, '10.0.1.1');
+
+      assert.strictEqual(await platform.discoverDevices(false), true);
+
+      assert.strictEqual(api.registered.length, 1);
+      const [accessory] = api.registered;
+      assert.strictEqual(accessory.UUID, uuid.generate(device.uniqueId));
+      assert.strictEqual(accessory.context.device.cachedIPAddress, '10.0.1.1');
+      assert.strictEqual(accessory.context.device.restartsSinceSeen, 0);
+      assert.deepStrictEqual(accessory.context.device.lightParameters, lightTypesMap.get(0x35));
+      assert.strictEqual(accessory.context.device.controllerHardwareVersion, 0x35);
+    });
+
+    it('leaves a registered device alone on the next pass', async () => {
+      const { platform, api, connect, recordings } = start();
+      connect(0xa1, '10.0.1.2');
+      await platform.discoverDevices(false);
+      const frames = recordings.get('10.0.1.2').frames.length;
+
+      assert.strictEqual(await platform.discoverDevices(false), true);
+
+      assert.strictEqual(api.registered.length, 1);
+      assert.strictEqual(api.updated.length, 0);
+      assert.strictEqual(recordings.get('10.0.1.2').frames.length, frames);
+    });
+
+    it('skips a device which does not answer its state query', async () => {
+      const { platform, api, connect, recordings } = start();
+      connect(0xa1, '10.0.1.3');
+      recordings.get('10.0.1.3').state = null;
+
+      await platform.discoverDevices(false);
+
+      assert.strictEqual(api.registered.length, 0);
+    });
+
+    it('does not register a blacklisted device', async () => {
+      const config = createPlatformConfig({ deviceManagement: { blacklistOrWhitelist: 'blacklist', blacklistedUniqueIDs: ['accf2300:0004'] } });
+      const { platform, api, connect } = start(config);
+      connect(0xa1, '10.0.1.4');
+
+      await platform.discoverDevices(false);
+
+      assert.strictEqual(api.registered.length, 0);
+    });
+
+    it('starts discovering once homebridge finished launching', async () => {
+      const { api, connect } = start();
+      connect(0xa1, '10.0.1.5');
+
+      api.launch();
+      for (let waited = 0; api.registered.length === 0 && waited < 2000; waited += 10) {
+        await sleep(10);
+      }
+
+      assert.strictEqual(api.registered.length, 1);
+    });
+  });
+
+  describe('cached accessories', () => {
+    it('restores a cached accessory which is seen again without registering it twice', async () => {
+      const first = start();
+      first.connect(0xa1, '10.0.2.1');
+      await first.platform.discoverDevices(false);
+      const [accessory] = first.api.registered;
+
+      const { platform, api, connect } = restart(first);
+      connect(0xa1, '10.0.2.1');
+      assert.strictEqual(await platform.discoverDevices(false), true);
+
+      assert.deepStrictEqual(uuids(api.registered), [accessory.UUID]);
+      assert.deepStrictEqual(uuids(api.updated), [accessory.UUID]);
+      assert.strictEqual(accessory.context.device.restartsSinceSeen, 0);
+      assert.strictEqual(accessory.context.pendingRegistration, false);
+    });
+
+    it('reassigns the address of a cached accessory whose device moved while homebridge was down', async () => {
+      const first = start();
+      first.connect(0xa1, '10.0.2.2');
+      await first.platform.discoverDevices(false);
+      const [accessory] = first.api.registered;
+
+      const { platform, api, connect } = restart(first);
+      connect(0xa1, '10.0.2.102', accessory.context.device.uniqueId);
+      await platform.discoverDevices(false);
+
+      assert.deepStrictEqual(uuids(api.registered), [accessory.UUID]);
+      assert.strictEqual(accessory.context.device.cachedIPAddress, '10.0.2.102');
+    });
+
+    it('moves a registered accessory to the address its device answers discovery from', async () => {
+      const { platform, api, connect, move, recordings } = start();
+      const device = connect(0xa1, '10.0.2.3');
+      await platform.discoverDevices(false);
+      const [accessory] = api.registered;
+
+      move(device, '10.0.2.103');
+      getDiscover(null, null).emit('device', { ...device });
+
+      assert.strictEqual(accessory.context.device.cachedIPAddress, '10.0.2.103');
+      assert.deepStrictEqual(uuids(api.updated), [accessory.UUID]);
+      await sleep(10);
+      assert.strictEqual(recordings.get('10.0.2.103').transport.uniqueId, device.uniqueId);
+    });
+
+    it('keeps an unseen cached accessory and sets it up only once', async () => {
+      const first = start();
+      first.connect(0xa1, '10.0.2.4');
+      await first.platform.discoverDevices(false);
+      const [accessory] = first.api.registered;
+
+      const { platform, api, messages, connect, setOnline } = restart(first);
+      setOnline(connect(0xa1, '10.0.2.4'), false);
+      assert.strictEqual(await platform.discoverDevices(false), false);
+      assert.strictEqual(await platform.discoverDevices(false), false);
+
+      assert.deepStrictEqual(uuids(api.registered), [accessory.UUID]);
+      assert.deepStrictEqual(uuids(api.updated), [accessory.UUID]);
+      assert.strictEqual(accessory.context.device.restartsSinceSeen, 1);
+      assert.strictEqual(messages.filter(message => message.startsWith('Warning! Continuing to register cached accessory')).length, 1);
+    });
+
+    it('leaves an accessory set up unseen alone once its device shows up at the same address', async () => {
+      const first = start();
+      first.connect(0xa1, '10.0.2.7');
+      await first.platform.discoverDevices(false);
+      const [accessory] = first.api.registered;
+
+      const { platform, api, messages, connect, setOnline } = restart(first);
+      const device = connect(0xa1, '10.0.2.7');
+      setOnline(device, false);
+      await platform.discoverDevices(false);
+      setOnline(device, true);
+
+      assert.strictEqual(await platform.discoverDevices(false), true);
+
+      assert.deepStrictEqual(uuids(api.updated), [accessory.UUID]);
+      assert.strictEqual(accessory.context.device.restartsSinceSeen, 0);
+      assert.ok(!messages.some(message => message.includes('Registering existing accessory')));
+    });
+
+    it('moves an accessory set up unseen when its device shows up at a new address', async () => {
+      const first = start();
+      first.connect(0xa1, '10.0.2.8');
+      await first.platform.discoverDevices(false);
+      const [accessory] = first.api.registered;
+
+      const { platform, api, messages, connect, move, setOnline, recordings } = restart(first);
+      const device = connect(0xa1, '10.0.2.8');
+      setOnline(device, false);
+      await platform.discoverDevices(false);
+      move(device, '10.0.2.108');
+      setOnline(device, true);
+
+      assert.strictEqual(await platform.discoverDevices(false), true);
+
+      assert.strictEqual(accessory.context.device.cachedIPAddress, '10.0.2.108');
+      assert.strictEqual(accessory.context.pendingRegistration, false);
+      assert.ok(!messages.some(message => message.includes('Registering existing accessory')));
+      // the transport at the old address was retired with the handler's listeners, the new one took them over
+      assert.strictEqual(recordings.get('10.0.2.8').transport.listenerCount('failure'), 0);
+      assert.strictEqual(recordings.get('10.0.2.108').transport.listenerCount('failure'), 1);
+      assert.deepStrictEqual(uuids(api.registered), [accessory.UUID]);
+    });
+
+    it('repairs a cached accessory with the data model before v1.8.6', async () => {
+      const { platform, api, connect, restore } = start();
+      const accessory = createOutdatedAccessory('ACCF23000005', '10.0.2.5');
+      restore(accessory);
+      connect(0xa1, '10.0.2.5', 'ACCF23000005');
+
+      await platform.discoverDevices(false);
+
+      assert.deepStrictEqual(uuids(api.registered), [accessory.UUID]);
+      assert.deepStrictEqual(uuids(api.updated), [accessory.UUID]);
+      const { device } = accessory.context;
+      assert.strictEqual(device.controllerHardwareVersion, 0xa1);
+      assert.strictEqual(device.modelNumber, 'AK001-ZJ2101');
+      assert.strictEqual(device.displayName, 'RGB Strip');
+      assert.deepStrictEqual(device.lastKnownState, current.recordings.get('10.0.2.5').state);
+    });
+
+    it('waits for an outdated cached accessory to be seen before setting it up', async () => {
+      const { platform, api, restore } = start();
+      const accessory = createOutdatedAccessory('ACCF23000006', '10.0.2.6');
+      restore(accessory);
+
+      await platform.discoverDevices(false);
+
+      assert.deepStrictEqual(uuids(api.registered), [accessory.UUID]);
+      assert.deepStrictEqual(api.updated, []);
+    });
+  });
+
+  describe('static devices', () => {
+    function createStaticConfig(hosts: string[]) {
+      return createPlatformConfig({
+        deviceManagement: { blacklistOrWhitelist: 'blacklist', blacklistedUniqueIDs: [], staticDevices: hosts.map(host => ({ host })) },
+        discovery: { maxConcurrentQueries: 2 },
+      });
+    }
+
+    it('probes static hosts at most maxConcurrentQueries at a time', async () => {
+      const hosts = ['10.0.3.1', '10.0.3.2', '10.0.3.3', '10.0.3.4', '10.0.3.5'];
+      const { platform, connect } = start(createStaticConfig(hosts));
+      hosts.forEach(host => connect(0xa1, host));
+
+      const discover = getDiscover(null, null);
+      const queryHost = discover.queryHost;
+      let running = 0;
+      let mostRunning = 0;
+      discover.queryHost = async (host: string, timeout: number) => {
+        mostRunning = Math.max(mostRunning, ++running);
+        await sleep(10);
+        running--;
+        return queryHost(host, timeout);
+      };
+
+      const found = await platform.discoverStaticDevices([], new Map());
+      assert.deepStrictEqual(found.map(device => device.ipAddress), hosts);
+      assert.strictEqual(mostRunning, 2);
+    });
+
+    it('skips static devices found by the scan or an earlier entry', async () => {
+      const { platform, connect } = start(createStaticConfig(['10.0.3.1', '10.0.3.1', '10.0.3.2']));
+      const first = connect(0xa1, '10.0.3.1');
+      const second = connect(0xa1, '10.0.3.2');
+
+      const found = await platform.discoverStaticDevices([{ ...second }], new Map());
+      assert.deepStrictEqual(found.map(device => device.uniqueId), [first.uniqueId]);
+    });
+  });
+
+  describe('pruning', () => {
+    const pruningConfig = createPlatformConfig({
+      pruning: { pruneMissingCachedAccessories: true, restartsBeforeMissingAccessoriesPruned: 2, pruneAllAccessoriesNextRestart: false },
+    });
+
+    async function cacheDevice(config = pruningConfig) {
+      const first = start(config);
+      first.connect(0xa1, '10.0.3.1');
+      await first.platform.discoverDevices(false);
+      return first;
+    }
+
+    it('prunes an accessory missing for restartsBeforeMissingAccessoriesPruned restarts', async () => {
+      const first = await cacheDevice();
+      const [accessory] = first.api.registered;
+
+      const second = restart(first);
+      await second.platform.discoverDevices(false);
+      assert.deepStrictEqual(uuids(second.api.registered), [accessory.UUID]);
+
+      const third = restart(second);
+      await third.platform.discoverDevices(false);
+      assert.deepStrictEqual(uuids(third.api.unregistered), [accessory.UUID]);
+      assert.deepStrictEqual(third.platform.accessories, []);
+    });
+
+    it('keeps missing accessories when pruning is off', async () => {
+      const first = await cacheDevice(createPlatformConfig());
+      const [accessory] = first.api.registered;
+      accessory.context.device.restartsSinceSeen = 10;
+
+      const second = restart(first);
+      await second.platform.discoverDevices(false);
+
+      assert.deepStrictEqual(second.api.unregistered, []);
+      assert.deepStrictEqual(uuids(second.platform.accessories), [accessory.UUID]);
+    });
+
+    it('prunes every accessory when pruneAllAccessoriesNextRestart is set', async () => {
+      const first = await cacheDevice();
+      const [accessory] = first.api.registered;
+
+      const second = restart(first, createPlatformConfig({
+        pruning: { pruneMissingCachedAccessories: false, restartsBeforeMissingAccessoriesPruned: 2, pruneAllAccessoriesNextRestart: true },
+      }));
+      await second.platform.discoverDevices(false);
+
+      assert.deepStrictEqual(uuids(second.api.unregistered), [accessory.UUID]);
+    });
+
+    it('prunes an accessory renamed to contain "delete"', async () => {
+      const first = await cacheDevice();
+      const [accessory] = first.api.registered;
+      accessory.context.device.displayName = 'Delete me';
+
+      const second = restart(first);
+      await second.platform.discoverDevices(false);
+
+      assert.deepStrictEqual(uuids(second.api.unregistered), [accessory.UUID]);
+    });
+
+    it('prunes a cached accessory which was blacklisted since', async () => {
+      const first = await cacheDevice();
+      const [accessory] = first.api.registered;
+
+      const second = restart(first, createPlatformConfig({
+        deviceManagement: { blacklistOrWhitelist: 'blacklist', blacklistedUniqueIDs: [accessory.context.device.uniqueId] },
+      }));
+      second.connect(0xa1, '10.0.3.1');
+      await second.platform.discoverDevices(false);
+
+      assert.ok(uuids(second.api.unregistered).includes(accessory.UUID));
+      assert.deepStrictEqual(second.api.registered, []);
+      assert.deepStrictEqual(second.platform.accessories, []);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import assert from 'assert';
+import { DeviceSimulator } from '../tools/simulator/DeviceSimulator';
+import { closeDiscover, getDiscover } from '../src/magichome-interface/Discover';
+import { disconnectAll, getTransport } from '../src/magichome-interface/Transport';
+import { createConfig } from './helpers/accessory';
+import { createLogs } from './helpers/homebridge';
+
+/**
+ * Discover and Transport against simulated controllers on 127.0.0.2 and up, over real UDP 48899 and TCP 5577 sockets.
+ * See the Development section of the README for the loopback aliases macOS needs.
+ */
+describe('simulated devices', () => {
+  const config = createConfig();
+  const simulator = new DeviceSimulator([{ hardwareVersion: 0x35 }, { hardwareVersion: 0xa1, firmwareVersion: 1 }]);
+  const [bulb, strip] = simulator.devices;
+  const { logs } = createLogs();
+
+  before(async () => {
+    // a real discovery socket, not one stubbed by an earlier spec
+    closeDiscover();
+    await simulator.start();
+  });
+
+  after(async () => {
+    closeDiscover();
+    disconnectAll();
+    await simulator.stop();
+  });
+
+  it('finds a device by unicast discovery', async () => {
+    const device = await getDiscover(logs, config).queryHost(strip.ipAddress, 1000);
+    assert.deepStrictEqual(device, { ipAddress: strip.ipAddress, uniqueId: strip.uniqueId, modelNumber: strip.modelNumber });
+  });
+
+  it('reads the state of a device', async () => {
+    const state = await getTransport(bulb.ipAddress, config, bulb.uniqueId).getState(1000);
+    assert.strictEqual(state.controllerHardwareVersion, 0x35);
+    assert.strictEqual(state.isOn, true);
+    assert.deepStrictEqual(state.RGB, { red: 255, green: 255, blue: 255 });
+  });
+
+  it('reads back a color it was sent', async () => {
+    const transport = getTransport(strip.ipAddress, config, strip.uniqueId);
+    assert.ok(await transport.request(Buffer.from([0x31, 0x00, 0xff, 0x00, 0x00, 0xf0, 0x0f]), true, 200));
+    assert.strictEqual(strip.received[strip.received.length - 1].toString('hex'), '3100ff0000f00f2f');
+
+    const state = await transport.getState(1000);
+    assert.deepStrictEqual(state.RGB, { red: 0, green: 255, blue: 0 });
+  });
+});
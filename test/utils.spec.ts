@@ -0,0 +1,47 @@
+import assert from 'assert';
+import { checksum, convertHSLtoRGB, convertRGBtoHSL } from '../src/magichome-interface/utils';
+
+function assertClose(actual: number[], expected: number[], tolerance: number) {
+  actual.forEach((value, index) => {
+    assert.ok(Math.abs(value - expected[index]) <= tolerance, `${actual} is not close to ${expected}`);
+  });
+}
+
+describe('utils', () => {
+  describe('checksum', () => {
+    it('sums the bytes and keeps the low byte', () => {
+      assert.strictEqual(checksum(Uint8Array.from([0x71, 0x23, 0x0f])), 0xa3);
+      assert.strictEqual(checksum(Uint8Array.from([0x31, 0xff, 0x00, 0x00, 0x00, 0xf0, 0x0f])), 0x2f);
+    });
+  });
+
+  describe('color conversion', () => {
+    it('converts primary and secondary colors', () => {
+      assertClose(convertHSLtoRGB({ hue: 0, saturation: 100, luminance: 50 }), [255, 0, 0], 1e-6);
+      assertClose(convertHSLtoRGB({ hue: 120, saturation: 100, luminance: 50 }), [0, 255, 0], 1e-6);
+      assertClose(convertHSLtoRGB({ hue: 240, saturation: 100, luminance: 50 }), [0, 0, 255], 1e-6);
+      assertClose(convertHSLtoRGB({ hue: 60, saturation: 100, luminance: 50 }), [255, 255, 0], 1e-6);
+    });
+
+    it('round trips hue and saturation through RGB', () => {
+      for (let hue = 0; hue < 360; hue += 15) {
+        for (const saturation of [5, 17, 33, 50, 100]) {
+          const [red, green, blue] = convertHSLtoRGB({ hue, saturation, luminance: 50 });
+          const hsl = convertRGBtoHSL({ red, green, blue });
+          assertClose([hsl.hue, hsl.saturation, hsl.luminance], [hue, saturation, 50], 1e-6);
+        }
+      }
+    });
+
+    it('round trips RGB at half luminance', () => {
+      for (const rgb of [[255, 0, 0], [0, 255, 128], [200, 55, 100], [128, 127, 127]]) {
+        const [red, green, blue] = rgb;
+        assertClose(convertHSLtoRGB(convertRGBtoHSL({ red, green, blue })), rgb, 1e-6);
+      }
+    });
+
+    it('maps grey to no saturation', () => {
+      assert.deepStrictEqual(convertRGBtoHSL({ red: 128, green: 128, blue: 128 }).saturation, 0);
+    });
+  });
+});
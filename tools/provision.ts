@@ -0,0 +1,41 @@
+/* eslint-disable no-console */
+import type { Logger } from 'homebridge';
+import { Logs } from '../src/logs';
+import { PLATFORM_NAME } from '../src/settings';
+import { closeDiscover } from '../src/magichome-interface/Discover';
+import { ACCESS_POINT_ADDRESS, Provisioner } from '../src/magichome-interface/Provisioning';
+
+/**
+ * Wi-Fi provisioning: npm run provision -- --ssid <ssid> [--password <password>] [--host <address>] [--timeout <seconds>]
+ * Run it from a checkout of the plugin, it isn't part of the published package.
+ * Connect this computer to the new device's "LEDnet..." network first, leave out the password for open networks.
+ */
+const usage = 'Usage: provision --ssid <ssid> [--password <password>] [--host <address>] [--timeout <seconds>] [--debug]';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const ssid = option('ssid');
+if (!ssid) {
+  console.error(usage);
+  process.exit(1);
+}
+
+const logger = {
+  info: (message, parameters) => console.log(message, ...parameters),
+  warn: (message, parameters) => console.warn(message, ...parameters),
+  error: (message, parameters) => console.error(message, ...parameters),
+} as unknown as Logger;
+const logs = new Logs(logger, process.argv.includes('--debug') ? 4 : 3);
+
+new Provisioner(logs, { platform: PLATFORM_NAME }).provision({
+  ssid,
+  password: option('password') ?? '',
+  host: option('host') ?? ACCESS_POINT_ADDRESS,
+  timeout: option('timeout') ? parseInt(option('timeout'), 10) : undefined,
+}).then((device) => {
+  closeDiscover();
+  process.exit(device ? 0 : 1);
+});
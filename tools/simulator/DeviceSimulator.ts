@@ -0,0 +1,67 @@
+import dgram from 'dgram';
+import { SimulatedDevice, ISimulatedDeviceOptions } from './SimulatedDevice';
+
+const BROADCAST_PORT = 48899;
+const BROADCAST_MAGIC_STRING = 'HF-A11ASSISTHREAD';
+
+/**
+ * A set of simulated devices behind one discovery responder.
+ * Every device gets its own loopback address (127.0.0.2, 127.0.0.3, ...) so they can all use port 5577
+ * like real controllers do, which is what Transport expects.
+ */
+export class DeviceSimulator {
+  public readonly devices: SimulatedDevice[] = [];
+  private socket: dgram.Socket = null;
+
+  constructor(deviceOptions: ISimulatedDeviceOptions[] = []) {
+    deviceOptions.forEach((options, index) => {
+      this.devices.push(new SimulatedDevice({ ipAddress: `127.0.0.${index + 2}`, ...options }));
+    });
+  }
+
+  getDevice(uniqueId: string): SimulatedDevice {
+    return this.devices.find(device => device.uniqueId === uniqueId);
+  }
+
+  async start(discoveryPort = BROADCAST_PORT) {
+    for (const device of this.devices) {
+      await device.start();
+    }
+    await this.startDiscovery(discoveryPort);
+  }
+
+  async stop() {
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+    for (const device of this.devices) {
+      await device.stop();
+    }
+  }
+
+  /**
+   * The devices' own module sockets bind the same port on their addresses, reuseAddr lets this one share it.
+   */
+  private startDiscovery(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+
+      socket.once('error', reject);
+      socket.on('message', (msg, rinfo) => {
+        if (msg.toString() !== BROADCAST_MAGIC_STRING) {
+          return;
+        }
+        for (const device of this.devices) {
+          socket.send(device.discoveryReply, rinfo.port, rinfo.address);
+        }
+      });
+
+      socket.bind(port, () => {
+        socket.setBroadcast(true);
+        this.socket = socket;
+        resolve();
+      });
+    });
+  }
+}
@@ -0,0 +1,369 @@
+import net from 'net';
+import dgram from 'dgram';
+import { checksum } from '../../src/magichome-interface/utils';
+import { lightTypesMap } from '../../src/magichome-interface/LightMap';
+
+const PORT = 5577;
+const DISCOVERY_PORT = 48899;
+const BROADCAST_MAGIC_STRING = 'HF-A11ASSISTHREAD';
+const ACCESS_POINT_BSSID = '02:00:00:00:00:01';
+
+const POWER_ON = 0x23;
+const POWER_OFF = 0x24;
+const PATTERN_CUSTOM = 0x60;
+const PATTERN_STATIC = 0x61;
+const TIMERS_LENGTH = 6 * 14;
+
+// length of every command we understand, including its checksum. 0x31 comes in two sizes, see frameLength()
+const commandLengths = {
+  0x81: 4, // query state
+  0x71: 4, // power
+  0x61: 5, // preset pattern
+  0x51: 70, // custom sequence
+  0x22: 5, // query timers
+  0x21: 88, // set timers
+  0x11: 5, // query clock
+  0x10: 12, // set clock
+};
+
+export interface ISimulatedDeviceOptions {
+  hardwareVersion: number;
+  firmwareVersion?: number;
+  uniqueId?: string;
+  modelNumber?: string;
+  ipAddress?: string;
+  port?: number;
+  wifi?: Partial<ISimulatedWifi>;
+}
+
+export interface ISimulatedWifi {
+  moduleFirmware: string;
+  mode: 'AP' | 'STA';
+  ssid: string; // null when not connected
+  key: string;
+  signalQuality: number;
+}
+
+export interface ISimulatedState {
+  isOn: boolean;
+  pattern: number;
+  delay: number;
+  red: number;
+  green: number;
+  blue: number;
+  warmWhite: number;
+  coldWhite: number;
+  colorMode: number;
+}
+
+/**
+ * A single MagicHome controller speaking the TCP 5577 protocol.
+ * It keeps its own state, so whatever is set can be read back with a 0x81 query like on real hardware.
+ */
+export class SimulatedDevice {
+  public readonly hardwareVersion: number;
+  public readonly firmwareVersion: number;
+  public readonly uniqueId: string;
+  public readonly modelNumber: string;
+  public readonly ipAddress: string;
+  public readonly port: number;
+
+  public state: ISimulatedState = {
+    isOn: true,
+    pattern: PATTERN_STATIC,
+    delay: 0x10,
+    red: 255,
+    green: 255,
+    blue: 255,
+    warmWhite: 0,
+    coldWhite: 0,
+    colorMode: 0xF0,
+  };
+
+  public wifi: ISimulatedWifi;
+  public timers: Buffer = Buffer.alloc(TIMERS_LENGTH, 0);
+  public customSequence: Buffer = null;
+  public readonly received: Buffer[] = [];
+
+  private clockOffset = 0;
+  private server: net.Server = null;
+  private moduleSocket: dgram.Socket = null;
+  // senders which completed the handshake and sent "+ok", by address:port
+  private readonly commandSessions: Set<string> = new Set();
+  // Wi-Fi settings written with AT commands, applied by the next AT+Z reboot like on the real module
+  private pendingWifi: Partial<ISimulatedWifi> = {};
+  private readonly sockets: Set<net.Socket> = new Set();
+
+  constructor(options: ISimulatedDeviceOptions) {
+    if (!lightTypesMap.has(options.hardwareVersion)) {
+      throw new Error(`Unknown hardware version 0x${options.hardwareVersion?.toString(16)}`);
+    }
+    this.hardwareVersion = options.hardwareVersion;
+    this.firmwareVersion = options.firmwareVersion ?? 5;
+    this.uniqueId = options.uniqueId ?? `ACCF23${options.hardwareVersion.toString(16).padStart(6, '0').toUpperCase()}`;
+    this.modelNumber = options.modelNumber ?? 'AK001-ZJ2101';
+    this.ipAddress = options.ipAddress ?? '127.0.0.1';
+    this.port = options.port ?? PORT;
+    this.wifi = { moduleFirmware: '3.1.8', mode: 'STA', ssid: 'Simulated', key: 'OPEN,NONE', signalQuality: 80, ...options.wifi };
+
+    // inactive timers
+    for (let i = 0; i < 6; i++) {
+      this.timers[i * 14] = 0x0f;
+    }
+  }
+
+  get discoveryReply(): string {
+    return `${this.ipAddress},${this.uniqueId},${this.modelNumber}`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server = net.createServer((socket) => this.onConnection(socket));
+      this.server.once('error', reject);
+      this.server.listen(this.port, this.ipAddress, () => resolve());
+    });
+    await this.startModule();
+  }
+
+  /**
+   * The Wi-Fi module answers unicast discovery and AT commands on its own address.
+   * Broadcasts aren't delivered to a socket bound to a unicast address, DeviceSimulator answers those.
+   */
+  private startModule(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+      socket.once('error', reject);
+      socket.on('message', (msg, rinfo) => {
+        const reply = this.handleModuleMessage(msg.toString(), `${rinfo.address}:${rinfo.port}`);
+        if (reply !== null) {
+          socket.send(reply, rinfo.port, rinfo.address);
+        }
+      });
+      socket.bind(DISCOVERY_PORT, this.ipAddress, () => {
+        this.moduleSocket = socket;
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+    if (this.moduleSocket) {
+      this.moduleSocket.close();
+      this.moduleSocket = null;
+    }
+    this.commandSessions.clear();
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  /**
+   * Change the state as if it was done with the MagicHome app or a remote,
+   * the new state is pushed to every open connection.
+   */
+  setState(state: Partial<ISimulatedState>) {
+    Object.assign(this.state, state);
+    const frame = this.stateResponse();
+    for (const socket of this.sockets) {
+      socket.write(frame);
+    }
+  }
+
+  /**
+   * Drop every open connection, like a device losing its Wi-Fi.
+   */
+  disconnectClients() {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+  }
+
+  private handleModuleMessage(message: string, sender: string): string | null {
+    if (message === BROADCAST_MAGIC_STRING) {
+      return this.discoveryReply;
+    }
+    if (message === '+ok') {
+      this.commandSessions.add(sender);
+      return null;
+    }
+    if (!this.commandSessions.has(sender)) {
+      return null;
+    }
+    const { moduleFirmware, mode, ssid, signalQuality } = this.wifi;
+    const [command, value] = message.trim().split(/=(.*)/);
+    if (value !== undefined) {
+      return this.handleModuleSetting(command, value);
+    }
+    switch (command) {
+      case 'AT+Q':
+        this.commandSessions.delete(sender);
+        return null;
+      case 'AT+LVER':
+        return `+ok=${moduleFirmware}\r\n\r\n`;
+      case 'AT+WSLK':
+        return ssid ? `+ok=${ssid}(${ACCESS_POINT_BSSID})\r\n\r\n` : '+ok=Disconnected\r\n\r\n';
+      case 'AT+WSLQ':
+        return ssid ? `+ok=${signalQuality < 40 ? 'Weak' : 'Normal'}, ${signalQuality}%\r\n\r\n` : '+ok=Disconnected\r\n\r\n';
+      case 'AT+WSMAC':
+        return `+ok=${this.uniqueId}\r\n\r\n`;
+      case 'AT+WMODE':
+        return `+ok=${mode}\r\n\r\n`;
+      case 'AT+Z':
+        Object.assign(this.wifi, this.pendingWifi);
+        this.pendingWifi = {};
+        this.commandSessions.clear();
+        return null;
+      default:
+        return '+ERR=-2\r\n\r\n';
+    }
+  }
+
+  private handleModuleSetting(command: string, value: string): string {
+    switch (command) {
+      case 'AT+WSSSID':
+        this.pendingWifi.ssid = value;
+        break;
+      case 'AT+WSKEY':
+        this.pendingWifi.key = value;
+        break;
+      case 'AT+WMODE':
+        if (value !== 'AP' && value !== 'STA') {
+          return '+ERR=-4\r\n\r\n';
+        }
+        this.pendingWifi.mode = value;
+        break;
+      default:
+        return '+ERR=-2\r\n\r\n';
+    }
+    return '+ok\r\n\r\n';
+  }
+
+  private onConnection(socket: net.Socket) {
+    this.sockets.add(socket);
+    let pending = Buffer.alloc(0);
+
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+    socket.on('data', (data: Buffer) => {
+      pending = Buffer.concat([pending, data]);
+
+      while (pending.length > 0) {
+        const length = this.frameLength(pending);
+        if (length === 0) {
+          // unknown command or garbage, drop it like the real firmware does
+          pending = Buffer.alloc(0);
+        } else if (length > pending.length) {
+          return; // wait for the rest of the frame
+        } else {
+          const frame = pending.subarray(0, length);
+          pending = pending.subarray(length);
+          if (checksum(frame.subarray(0, length - 1)) === frame[length - 1]) {
+            this.received.push(Buffer.from(frame));
+            const response = this.handleCommand(frame);
+            if (response) {
+              socket.write(response);
+            }
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * 0x31 frames are 8 or 9 bytes with their checksum, both end in 0x0F before the checksum.
+   * Returns the expected length, or 0 when the frame can't be recognised.
+   */
+  private frameLength(data: Buffer): number {
+    const command = data[0];
+    if (command === 0x31) {
+      if (data.length < 8) {
+        return 8;
+      }
+      if (data[6] === 0x0F && checksum(data.subarray(0, 7)) === data[7]) {
+        return 8;
+      }
+      return 9;
+    }
+    return commandLengths[command] ?? 0;
+  }
+
+  private handleCommand(frame: Buffer): Buffer | null {
+    switch (frame[0]) {
+      case 0x81:
+        return this.stateResponse();
+      case 0x71:
+        this.state.isOn = frame[1] === POWER_ON;
+        return withChecksum([0xF0, 0x71, this.state.isOn ? POWER_ON : POWER_OFF]);
+      case 0x31:
+        this.setColor(frame);
+        return null;
+      case 0x61:
+        this.state.pattern = frame[1];
+        this.state.delay = frame[2];
+        return null;
+      case 0x51:
+        this.customSequence = Buffer.from(frame);
+        this.state.pattern = PATTERN_CUSTOM;
+        this.state.delay = frame[65];
+        return null;
+      case 0x22:
+        return withChecksum([0x0F, 0x22, ...this.timers, 0x00]);
+      case 0x21:
+        this.timers = Buffer.from(frame.subarray(1, 1 + TIMERS_LENGTH));
+        return withChecksum([0x0F, 0x21, 0x00]);
+      case 0x11:
+        return this.clockResponse();
+      case 0x10:
+        this.setClock(frame);
+        return withChecksum([0x0F, 0x10, 0x00]);
+      default:
+        return null;
+    }
+  }
+
+  private setColor(frame: Buffer) {
+    const eightByte = frame.length === 9;
+    this.state.pattern = PATTERN_STATIC;
+    this.state.red = frame[1];
+    this.state.green = frame[2];
+    this.state.blue = frame[3];
+    this.state.warmWhite = frame[4];
+    this.state.coldWhite = eightByte ? frame[5] : 0;
+    this.state.colorMode = eightByte ? frame[6] : frame[5];
+  }
+
+  private setClock(frame: Buffer) {
+    const deviceTime = new Date(frame[2] + 2000, frame[3] - 1, frame[4], frame[5], frame[6], frame[7]);
+    this.clockOffset = deviceTime.getTime() - Date.now();
+  }
+
+  stateResponse(): Buffer {
+    const { isOn, pattern, delay, red, green, blue, warmWhite, coldWhite, colorMode } = this.state;
+    return withChecksum([
+      0x81, this.hardwareVersion, isOn ? POWER_ON : POWER_OFF, pattern, 0x21, delay,
+      red, green, blue, warmWhite, this.firmwareVersion, coldWhite, colorMode,
+    ]);
+  }
+
+  private clockResponse(): Buffer {
+    const now = new Date(Date.now() + this.clockOffset);
+    const weekday = now.getDay() === 0 ? 7 : now.getDay();
+    return withChecksum([
+      0xF0, 0x11, 0x14, now.getFullYear() - 2000, now.getMonth() + 1, now.getDate(),
+      now.getHours(), now.getMinutes(), now.getSeconds(), weekday, 0x00,
+    ]);
+  }
+}
+
+function withChecksum(bytes: number[]): Buffer {
+  return Buffer.from([...bytes, checksum(Uint8Array.from(bytes))]);
+}
@@ -0,0 +1,27 @@
+/* eslint-disable no-console */
+import { DeviceSimulator } from './DeviceSimulator';
+import { lightTypesMap } from '../../src/magichome-interface/LightMap';
+
+/**
+ * Standalone simulator: npm run simulator -- [hardwareVersion ...]
+ * Hardware versions are given in hex (e.g. 0x35 0x33). Without arguments every known version is simulated.
+ */
+const args = process.argv.slice(2);
+const hardwareVersions = args.length > 0 ? args.map(arg => parseInt(arg, 16)) : Array.from(lightTypesMap.keys());
+
+const simulator = new DeviceSimulator(hardwareVersions.map(hardwareVersion => ({ hardwareVersion })));
+
+simulator.start().then(() => {
+  for (const device of simulator.devices) {
+    const { controllerLogicType } = lightTypesMap.get(device.hardwareVersion);
+    console.log(`${device.ipAddress} ${device.uniqueId} 0x${device.hardwareVersion.toString(16)} ${controllerLogicType}`);
+  }
+  console.log('Answering discovery on port 48899, press Ctrl+C to stop');
+}).catch((error) => {
+  console.error('Unable to start the simulator:', error.message);
+  process.exit(1);
+});
+
+process.on('SIGINT', () => {
+  simulator.stop().then(() => process.exit(0));
+});